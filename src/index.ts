@@ -42,6 +42,7 @@ export {
   getMotionSources,
   getBackgroundTextures,
 } from './capabilities';
+export { getRuntimeApi } from './runtime-api';
 
 export {
   createPreviewEngine,
@@ -54,6 +55,7 @@ export {
   PREVIEW_FPS,
   PREVIEW_BUDGET,
   CANVAS_LIMITS,
+  RUNTIME_LIMITS,
   type RuntimeProfile,
   type PreviewMode,
   type PreviewEngineConfig,
@@ -65,6 +67,8 @@ export {
   type BudgetBehavior,
   type CanonicalRequest,
   type FpsThrottleState,
+  type RuntimeTimingMode,
+  type PreviewImageAsset,
 } from './preview/preview-types';
 
 export { type FrameBudgetState } from './preview/frame-budget';
@@ -74,6 +78,7 @@ export {
   shouldRenderFrame,
   recordFrame,
   resetThrottle,
+  frameIntervalForRate,
   createFrameBudget,
   canRenderFrame,
   resetBudget,
@@ -87,6 +92,12 @@ export {
   type ScaledDimensions,
 } from './preview/canvas-scaler';
 
+export {
+  analyzeSketch,
+  type SketchAnalysis,
+  type UnknownIdentifier,
+} from './preview/sketch-analysis';
+
 export type {
   NexArtSystemInput,
   NexArtSystem,
@@ -128,6 +139,14 @@ export type {
   ParameterSpec,
 } from './capabilities';
 
+export type {
+  RuntimeApi,
+  RuntimeApiCategory,
+  RuntimeFunctionSpec,
+  RuntimeConstantSpec,
+  RuntimeHookSpec,
+} from './runtime-api';
+
 // ============================================================================
 // v0.9.0 RECOMMENDED ENTRYPOINT
 // ============================================================================
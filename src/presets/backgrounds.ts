@@ -116,15 +116,18 @@ function draw() {
   const spacing = 20;
   const cols = floor((width - margin * 2) / spacing);
   const rows = floor((height - margin * 2) / spacing);
+  const loopX = 0.35 * cos(TWO_PI * t);
+  const loopZ = 0.35 * sin(TWO_PI * t);
   
   for (let i = 0; i < cols; i++) {
     for (let j = 0; j < rows; j++) {
       const x = margin + i * spacing + spacing / 2;
       const y = margin + j * spacing + spacing / 2;
       
-      const n = noise(i * 0.1, j * 0.1, t * 2);
+      // Sample noise on a circle in t, so the field joins up at t = 1 without a jump
+      const n = noise(i * 0.1 + loopX, j * 0.1, loopZ);
       const offsetX = (n - 0.5) * spacing * 0.6;
-      const offsetY = (noise(i * 0.1 + 100, j * 0.1, t * 2) - 0.5) * spacing * 0.6;
+      const offsetY = (noise(i * 0.1 + 100 + loopX, j * 0.1, loopZ) - 0.5) * spacing * 0.6;
       
       const alpha = map(n, 0, 1, 80, 200);
       fill(red('${colors.foreground}'), green('${colors.foreground}'), blue('${colors.foreground}'), alpha);
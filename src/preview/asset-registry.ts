@@ -0,0 +1,141 @@
+/**
+ * @nexart/ui-renderer - Asset Registry
+ *
+ * Host-supplied images that sketches can reach through loadImage(name).
+ *
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  ASSET REGISTRY — NO NETWORK                                             ║
+ * ║                                                                          ║
+ * ║  Sketches never fetch. The host registers images by name, either         ║
+ * ║  already decoded (image, canvas, bitmap) or as `data:image/...` URLs.    ║
+ * ║  Any other string is rejected, so a registry cannot smuggle in a URL.    ║
+ * ║                                                                          ║
+ * ║  Entry count and decoded pixel size are bounded by RUNTIME_LIMITS.       ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import type { PreviewImageAsset } from './preview-types';
+
+export interface AssetRegistryLimits {
+  /** Registered entries kept; extras are dropped with a warning */
+  maxAssets: number;
+  /** Decoded pixels (width × height) allowed per image */
+  maxAssetPixels: number;
+}
+
+export interface DecodedAsset {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+export type AssetLookup =
+  | { status: 'ready'; asset: DecodedAsset }
+  | { status: 'pending' }
+  | { status: 'missing' | 'rejected'; reason: string };
+
+export interface AssetRegistry {
+  /** Look up a registered image by name */
+  lookup: (name: string) => AssetLookup;
+  /** Whether any data URL or image element is still decoding */
+  isPending: () => boolean;
+  /** Resolves once every entry has decoded or been rejected (never rejects) */
+  ready: Promise<void>;
+}
+
+type Entry =
+  | { status: 'ready'; asset: DecodedAsset }
+  | { status: 'pending' }
+  | { status: 'rejected'; reason: string };
+
+const DATA_IMAGE_URL = /^data:image\/[a-z0-9.+-]+[;,]/i;
+
+function intrinsicSize(source: Exclude<PreviewImageAsset, string>): { width: number; height: number } {
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  return { width: source.width, height: source.height };
+}
+
+/**
+ * Build a registry from the host's name → image map and start decoding data URLs.
+ */
+export function createAssetRegistry(
+  assets: Record<string, PreviewImageAsset> | undefined,
+  limits: AssetRegistryLimits
+): AssetRegistry {
+  const entries = new Map<string, Entry>();
+  const decoding: Promise<void>[] = [];
+  let pendingCount = 0;
+
+  const accept = (name: string, source: Exclude<PreviewImageAsset, string>): Entry => {
+    const { width, height } = intrinsicSize(source);
+    if (!(width > 0 && height > 0)) {
+      return { status: 'rejected', reason: 'image has no size (failed to decode?)' };
+    }
+    if (width * height > limits.maxAssetPixels) {
+      console.warn(`[AssetRegistry] "${name}" is ${width}×${height} — over the ${limits.maxAssetPixels} pixel limit, ignoring it`);
+      return { status: 'rejected', reason: `image exceeds ${limits.maxAssetPixels} pixels` };
+    }
+    return { status: 'ready', asset: { source, width, height } };
+  };
+
+  const decodeLater = (name: string, image: HTMLImageElement) => {
+    entries.set(name, { status: 'pending' });
+    pendingCount++;
+    decoding.push(
+      image.decode()
+        .then(
+          () => accept(name, image),
+          (): Entry => {
+            console.warn(`[AssetRegistry] "${name}" could not be decoded`);
+            return { status: 'rejected', reason: 'image could not be decoded' };
+          }
+        )
+        .then(entry => {
+          entries.set(name, entry);
+          pendingCount--;
+        })
+    );
+  };
+
+  const names = Object.keys(assets ?? {});
+  if (names.length > limits.maxAssets) {
+    console.warn(`[AssetRegistry] ${names.length} assets supplied — only the first ${limits.maxAssets} are registered`);
+  }
+
+  for (const name of names.slice(0, limits.maxAssets)) {
+    const value = assets![name];
+
+    if (typeof value === 'string') {
+      if (!DATA_IMAGE_URL.test(value)) {
+        console.warn(`[AssetRegistry] "${name}" is not a data:image URL — network sources are not loaded in preview`);
+        entries.set(name, { status: 'rejected', reason: 'only data:image URLs are accepted' });
+        continue;
+      }
+      const image = new Image();
+      image.src = value;
+      decodeLater(name, image);
+      continue;
+    }
+
+    if (typeof HTMLImageElement !== 'undefined' && value instanceof HTMLImageElement && !value.complete) {
+      decodeLater(name, value);
+      continue;
+    }
+
+    entries.set(name, accept(name, value));
+  }
+
+  return {
+    lookup: (name: string): AssetLookup => {
+      const entry = entries.get(name);
+      if (!entry) {
+        return { status: 'missing', reason: `no asset named "${name}" is registered` };
+      }
+      return entry;
+    },
+    isPending: () => pendingCount > 0,
+    ready: Promise.all(decoding).then(() => undefined),
+  };
+}
@@ -25,7 +25,24 @@ import {
   reapplyContextScale,
   clearCanvasIgnoringTransform,
 } from './canvas-scaler';
-import { createPreviewRuntime, type PreviewP5Runtime } from './preview-runtime';
+import {
+  createPreviewRuntime,
+  createSketchScope,
+  destroyRuntime,
+  beginRuntimeFrame,
+  endRuntimeFrame,
+  resetRuntimeClock,
+  getTargetFrameRate,
+  isRuntimeFrameDue,
+  type PreviewP5Runtime,
+} from './preview-runtime';
+import { createFpsThrottle, shouldRenderFrame, recordFrame, frameIntervalForRate } from './frame-budget';
+import {
+  bindCanvasInput,
+  sketchHandlerRegistrationSource,
+  type SketchEventHandler,
+  type SketchEventHandlerName,
+} from './input-binding';
 
 const PROTOCOL_VERSION = '1.2.0';
 
@@ -75,7 +92,7 @@ export function renderCodeModeSystem(
     activeRendererInstance = null;
   }
 
-  const { showBadge = true, onPreview, onComplete, onError } = options;
+  const { showBadge = true, interactive = false, timing, onPreview, onComplete, onError } = options;
 
   const scaled = calculateScaledDimensions(system.width, system.height);
   if (scaled.wasScaled) {
@@ -97,6 +114,8 @@ export function renderCodeModeSystem(
   let runtime: PreviewP5Runtime | null = null;
   let setupFn: (() => void) | null = null;
   let drawFn: (() => void) | null = null;
+  const eventHandlers = new Map<SketchEventHandlerName, SketchEventHandler>();
+  let unbindInput: (() => void) | null = null;
 
   const compileSource = () => {
     // ╔═══════════════════════════════════════════════════════════════════════╗
@@ -111,12 +130,22 @@ export function renderCodeModeSystem(
     // ║  Passing scaled dimensions breaks loop animations and geometry.       ║
     // ║  This invariant is locked for v0.x — see CHANGELOG v0.8.2.            ║
     // ╚═══════════════════════════════════════════════════════════════════════╝
+    if (runtime) destroyRuntime(runtime);
+    // A previous run's createCanvas()/resizeCanvas() may have resized the buffer
+    if (canvas.width !== scaled.renderWidth || canvas.height !== scaled.renderHeight) {
+      applyScaledDimensions(canvas, scaled);
+      reapplyContextScale(canvas, scaled);
+    }
+    unbindInput?.();
+    unbindInput = null;
+    eventHandlers.clear();
     runtime = createPreviewRuntime(
       canvas,
       scaled.originalWidth,   // ← Protocol dimension (e.g. 1950)
       scaled.originalHeight,  // ← Protocol dimension (e.g. 2400)
       system.seed ?? 12345,
-      normalizedVars
+      normalizedVars,
+      { timing }
     );
 
     const totalFrames = system.totalFrames ?? 120;
@@ -126,55 +155,25 @@ export function renderCodeModeSystem(
       // ╔═══════════════════════════════════════════════════════════════════════╗
       // ║  LIVE RUNTIME BINDING — v0.8.7 FIX                                    ║
       // ║                                                                       ║
-      // ║  Time-varying properties (frameCount, t, time, tGlobal, totalFrames)  ║
-      // ║  must be accessed via getters that read from the live runtime object. ║
+      // ║  Time-varying properties (frameCount, t, time, tGlobal, totalFrames,  ║
+      // ║  pixels) must be accessed via getters that read from the live         ║
+      // ║  runtime object. See LIVE_RUNTIME_PROPS in preview-runtime.ts.        ║
       // ║                                                                       ║
-      // ║  We use a Proxy + with() pattern to enable bare-name access to live   ║
-      // ║  runtime properties. The proxy's get trap reads from runtime for      ║
-      // ║  time-varying props, and from a static cache for everything else.     ║
+      // ║  createSketchScope() builds a Proxy for a with() block, enabling      ║
+      // ║  bare-name access to live runtime properties. The proxy's get trap    ║
+      // ║  reads live props from runtime, everything else from a static cache.  ║
       // ╚═══════════════════════════════════════════════════════════════════════╝
       
-      // Time-varying properties that need live access
-      const liveProps = new Set(['frameCount', 't', 'time', 'tGlobal', 'totalFrames']);
-      
-      // Cache static properties (functions, constants)
-      const staticCache: Record<string, any> = {};
-      for (const key of Object.keys(runtime!)) {
-        if (!liveProps.has(key)) {
-          staticCache[key] = (runtime as any)[key];
-        }
-      }
-      
       const registerSetup = (fn: () => void) => { setupFn = fn; };
       const registerDraw = (fn: () => void) => { drawFn = fn; };
-      
-      // Build the set of all known keys (for has trap)
-      const knownKeys = new Set([
-        ...liveProps,
-        ...Object.keys(staticCache),
-        '__registerSetup',
-        '__registerDraw'
-      ]);
-      
-      // Create a proxy that provides live access to time-varying properties
-      // IMPORTANT: has() must return true ONLY for known keys
-      // Otherwise globals (Math, window, etc.) are masked and become undefined
-      const runtimeRef = runtime!;
-      const scope = new Proxy({} as Record<string, any>, {
-        has: (_, prop: string) => knownKeys.has(prop),
-        get: (_, prop: string) => {
-          // Time-varying properties - read live from runtime
-          if (liveProps.has(prop)) {
-            return (runtimeRef as any)[prop];
-          }
-          // Special functions
-          if (prop === '__registerSetup') return registerSetup;
-          if (prop === '__registerDraw') return registerDraw;
-          // Static properties from cache
-          if (prop in staticCache) return staticCache[prop];
-          // Fall through to undefined (should not hit this if has() is correct)
-          return undefined;
-        }
+      const registerHandler = (name: SketchEventHandlerName, fn: SketchEventHandler) => {
+        eventHandlers.set(name, fn);
+      };
+
+      const scope = createSketchScope(runtime!, {
+        __registerSetup: registerSetup,
+        __registerDraw: registerDraw,
+        __registerHandler: registerHandler,
       });
       
       // Use with() to make the proxy scope available to bare variable names
@@ -184,6 +183,7 @@ export function renderCodeModeSystem(
           ${system.source}
           if (typeof setup === 'function') __registerSetup(setup);
           if (typeof draw === 'function') __registerDraw(draw);
+          ${sketchHandlerRegistrationSource()}
         }
       `;
 
@@ -192,6 +192,10 @@ export function renderCodeModeSystem(
     } catch (error) {
       console.warn('[UIRenderer] Compile error:', error);
     }
+
+    if (interactive) {
+      unbindInput = bindCanvasInput(canvas, runtime, name => eventHandlers.get(name) ?? null);
+    }
   };
 
   const drawBadge = () => {
@@ -202,7 +206,7 @@ export function renderCodeModeSystem(
     const padding = 6;
     const badgeWidth = metrics.width + padding * 2;
     const badgeHeight = 18;
-    const x = scaled.renderWidth - badgeWidth - 6;
+    const x = canvas.width - badgeWidth - 6;
     const y = 6;
 
     ctx.fillStyle = 'rgba(255, 100, 100, 0.15)';
@@ -219,7 +223,7 @@ export function renderCodeModeSystem(
 
   const renderBlackCanvas = (error: Error) => {
     ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, scaled.renderWidth, scaled.renderHeight);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
     ctx.fillStyle = '#ff6666';
     ctx.font = '12px monospace';
     ctx.fillText('[Preview Error]', 10, 20);
@@ -230,8 +234,13 @@ export function renderCodeModeSystem(
     try {
       compileSource();
       
-      if (setupFn) {
-        setupFn();
+      if (runtime) resetRuntimeClock(runtime);
+      try {
+        if (setupFn) {
+          setupFn();
+        }
+      } finally {
+        if (runtime) endRuntimeFrame(runtime);
       }
 
       drawBadge();
@@ -264,9 +273,15 @@ export function renderCodeModeSystem(
 
       const totalFrames = system.totalFrames ?? 120;
       let frameCount = 0;
+      const throttle = createFpsThrottle();
 
-      if (setupFn) {
-        setupFn();
+      if (runtime) resetRuntimeClock(runtime);
+      try {
+        if (setupFn) {
+          setupFn();
+        }
+      } finally {
+        if (runtime) endRuntimeFrame(runtime);
       }
 
       isRunning = true;
@@ -275,7 +290,8 @@ export function renderCodeModeSystem(
       // ║  ANIMATION LOOP — NATIVE requestAnimationFrame (~60 FPS)              ║
       // ║                                                                       ║
       // ║  v0.8.8: Removed FPS throttle for smooth rendering matching NexArt.   ║
-      // ║  Browser handles frame pacing naturally via requestAnimationFrame.    ║
+      // ║  Browser handles frame pacing naturally via requestAnimationFrame,    ║
+      // ║  unless the sketch sets a target with frameRate(n).                   ║
       // ║  Looping uses modulo math: t = (frame % total) / total                ║
       // ║  Canvas cleared before each draw() call.                              ║
       // ╚═══════════════════════════════════════════════════════════════════════╝
@@ -286,6 +302,16 @@ export function renderCodeModeSystem(
         // Exit if stopped or destroyed
         if (!isRunning || isDestroyed) return;
 
+        // noLoop() pauses draw() until loop() or redraw(n)
+        if (runtime && !isRuntimeFrameDue(runtime)) return;
+
+        // Sketch-requested cadence — skip RAF ticks until the next frame is due
+        const targetFps = runtime ? getTargetFrameRate(runtime) : null;
+        if (targetFps !== null) {
+          if (!shouldRenderFrame(throttle, frameIntervalForRate(targetFps))) return;
+          recordFrame(throttle);
+        }
+
         frameCount++;
 
         // Update runtime timing using modulo for natural looping
@@ -294,16 +320,20 @@ export function renderCodeModeSystem(
           runtime.t = (frameCount % totalFrames) / totalFrames;
           runtime.time = runtime.t;
           runtime.tGlobal = runtime.t;
+          beginRuntimeFrame(runtime);
         }
 
         try {
           // Clear and draw
           clearCanvasIgnoringTransform(ctx, canvas);
           if (drawFn) drawFn();
-          drawBadge();
         } catch (error) {
           console.warn('[UIRenderer] Draw error:', error);
+        } finally {
+          // A throwing draw() must still unwind push()/clip state and reset the pixel budget
+          if (runtime) endRuntimeFrame(runtime);
         }
+        drawBadge();
       };
 
       animationId = requestAnimationFrame(loop);
@@ -346,6 +376,10 @@ export function renderCodeModeSystem(
     isDestroyed = true;
     stop();
     clearCanvasIgnoringTransform(ctx, canvas);
+    unbindInput?.();
+    unbindInput = null;
+    eventHandlers.clear();
+    if (runtime) destroyRuntime(runtime);
     runtime = null;
     setupFn = null;
     drawFn = null;
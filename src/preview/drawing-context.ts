@@ -0,0 +1,84 @@
+/**
+ * @nexart/ui-renderer - Drawing Context
+ *
+ * Controlled view of the runtime's CanvasRenderingContext2D, exposed to
+ * sketches as `drawingContext`.
+ *
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  DRAWING CONTEXT — SEMANTIC COORDINATES                                  ║
+ * ║                                                                          ║
+ * ║  The real context carries the preview scale (ctx.scale from              ║
+ * ║  canvas-scaler). Through this view:                                      ║
+ * ║  - setTransform/resetTransform/getTransform work in semantic space       ║
+ * ║  - shadowBlur/shadowOffsetX/shadowOffsetY are semantic lengths           ║
+ * ║  - the canvas element and raw pixel methods are not reachable            ║
+ * ║    (use loadPixels/get/set, which respect the pixel budget)              ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+/** Shadow properties the canvas applies in buffer pixels, ignoring the transform */
+const SCALED_SHADOW_PROPS = new Set(['shadowBlur', 'shadowOffsetX', 'shadowOffsetY']);
+
+const BLOCKED_PROPS = new Set(['canvas', 'getImageData', 'putImageData', 'createImageData']);
+
+type MatrixLike = { a?: number; b?: number; c?: number; d?: number; e?: number; f?: number };
+
+/**
+ * Current transform in semantic space (the preview scale factored out).
+ */
+export function getSemanticTransform(ctx: CanvasRenderingContext2D, scale: number): DOMMatrix {
+  const m = ctx.getTransform();
+  return new DOMMatrix([m.a / scale, m.b / scale, m.c / scale, m.d / scale, m.e / scale, m.f / scale]);
+}
+
+/**
+ * Wrap a context for sketch access. `scale` returns the current buffer scale
+ * (buffer pixels per semantic unit).
+ */
+export function createDrawingContext(
+  ctx: CanvasRenderingContext2D,
+  scale: () => number
+): CanvasRenderingContext2D {
+  const warned = new Set<string>();
+
+  const setSemanticTransform = (...args: any[]) => {
+    const m: MatrixLike = args.length >= 6
+      ? { a: args[0], b: args[1], c: args[2], d: args[3], e: args[4], f: args[5] }
+      : (args[0] ?? {});
+    const s = scale();
+    ctx.setTransform(
+      s * (m.a ?? 1), s * (m.b ?? 0),
+      s * (m.c ?? 0), s * (m.d ?? 1),
+      s * (m.e ?? 0), s * (m.f ?? 0)
+    );
+  };
+
+  const overrides: Record<string, unknown> = {
+    setTransform: setSemanticTransform,
+    resetTransform: () => setSemanticTransform(1, 0, 0, 1, 0, 0),
+    getTransform: () => getSemanticTransform(ctx, scale()),
+  };
+
+  return new Proxy(ctx, {
+    get: (target, prop) => {
+      if (typeof prop !== 'string') return undefined;
+      if (BLOCKED_PROPS.has(prop)) {
+        if (!warned.has(prop)) {
+          warned.add(prop);
+          const hint = prop === 'canvas' ? '' : ' — use loadPixels()/get()/set()';
+          console.warn(`[PreviewRuntime] drawingContext.${prop} is not available in preview${hint}`);
+        }
+        return undefined;
+      }
+      if (prop in overrides) return overrides[prop];
+      if (SCALED_SHADOW_PROPS.has(prop)) return Reflect.get(target, prop) / scale();
+      const value = Reflect.get(target, prop);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set: (target, prop, value) => {
+      if (typeof prop !== 'string' || BLOCKED_PROPS.has(prop) || prop in overrides) return true;
+      Reflect.set(target, prop, SCALED_SHADOW_PROPS.has(prop) ? value * scale() : value);
+      return true;
+    },
+  });
+}
@@ -15,6 +15,9 @@
 
 import { PREVIEW_FPS, type FpsThrottleState } from './preview-types';
 
+/** Slack so RAF jitter doesn't turn a 30 FPS target into 20 FPS at 60 Hz */
+const FRAME_INTERVAL_TOLERANCE_MS = 5;
+
 /**
  * Create a new FPS throttle state
  */
@@ -28,10 +31,20 @@ export function createFpsThrottle(): FpsThrottleState {
  * Check if enough time has passed to render the next frame.
  * Returns true if we should render, false if we should skip this RAF tick.
  */
-export function shouldRenderFrame(throttle: FpsThrottleState): boolean {
+export function shouldRenderFrame(
+  throttle: FpsThrottleState,
+  intervalMs: number = PREVIEW_FPS.FRAME_INTERVAL_MS
+): boolean {
   const now = performance.now();
   const elapsed = now - throttle.lastFrameTimeMs;
-  return elapsed >= PREVIEW_FPS.FRAME_INTERVAL_MS;
+  return elapsed >= intervalMs;
+}
+
+/**
+ * Minimum RAF spacing for a target frame rate (e.g. from a sketch's frameRate(n)).
+ */
+export function frameIntervalForRate(fps: number): number {
+  return Math.max(0, 1000 / fps - FRAME_INTERVAL_TOLERANCE_MS);
 }
 
 /**
@@ -0,0 +1,163 @@
+/**
+ * @nexart/ui-renderer - Input Binding
+ *
+ * Opt-in pointer and keyboard input for interactive previews.
+ *
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  INPUT BINDING — SEMANTIC COORDINATES                                    ║
+ * ║                                                                          ║
+ * ║  Pointer events arrive in CSS pixels of the displayed canvas.            ║
+ * ║  mouseX/mouseY are reported in SEMANTIC (protocol) space, the same       ║
+ * ║  space as width/height — never in scaled buffer pixels.                  ║
+ * ║                                                                          ║
+ * ║  Every listener added here is removed by the returned unbind function.   ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { getPressedKeys, type PreviewP5Runtime } from './preview-runtime';
+
+/**
+ * Event handler functions a sketch may define, p5-style.
+ */
+export const SKETCH_EVENT_HANDLERS = [
+  'mousePressed',
+  'mouseReleased',
+  'mouseClicked',
+  'mouseMoved',
+  'mouseDragged',
+  'mouseWheel',
+  'keyPressed',
+  'keyReleased',
+  'keyTyped',
+] as const;
+
+export type SketchEventHandlerName = typeof SKETCH_EVENT_HANDLERS[number];
+
+export type SketchEventHandler = (event?: Event) => unknown;
+
+/**
+ * Source lines appended to a compiled sketch to register its event handlers.
+ * Expects `__registerHandler(name, fn)` in scope.
+ */
+export function sketchHandlerRegistrationSource(): string {
+  return SKETCH_EVENT_HANDLERS
+    .map(name => `if (typeof ${name} === 'function') __registerHandler('${name}', ${name});`)
+    .join('\n');
+}
+
+const MOUSE_BUTTONS = ['left', 'center', 'right'];
+
+/**
+ * Bind pointer and keyboard listeners on the canvas and mirror input state into the runtime.
+ * Returns a function that removes every listener and restores the canvas tabIndex.
+ */
+export function bindCanvasInput(
+  canvas: HTMLCanvasElement,
+  runtime: PreviewP5Runtime,
+  getHandler: (name: SketchEventHandlerName) => SketchEventHandler | null
+): () => void {
+  const pressedKeys = getPressedKeys(runtime);
+
+  const call = (name: SketchEventHandlerName, event: Event) => {
+    const handler = getHandler(name);
+    if (!handler) return;
+    try {
+      handler(event);
+    } catch (error) {
+      console.warn(`[InputBinding] ${name}() error:`, error);
+    }
+  };
+
+  // CSS pixels → semantic space, through the displayed size of the canvas.
+  // Read per event: createCanvas()/resizeCanvas() may change both sizes.
+  const updatePointer = (event: PointerEvent | WheelEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    const cssWidth = rect.width || canvas.width;
+    const cssHeight = rect.height || canvas.height;
+    runtime.mouseX = ((event.clientX - rect.left) / cssWidth) * runtime.width;
+    runtime.mouseY = ((event.clientY - rect.top) / cssHeight) * runtime.height;
+  };
+
+  const onPointerDown = (event: PointerEvent) => {
+    updatePointer(event);
+    runtime.mouseIsPressed = true;
+    runtime.mouseButton = MOUSE_BUTTONS[event.button] ?? 'left';
+    try {
+      canvas.setPointerCapture(event.pointerId);
+    } catch {
+      // Capture is best-effort (synthetic events have no active pointer)
+    }
+    call('mousePressed', event);
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    updatePointer(event);
+    call(runtime.mouseIsPressed ? 'mouseDragged' : 'mouseMoved', event);
+  };
+
+  const onPointerUp = (event: PointerEvent) => {
+    updatePointer(event);
+    const wasPressed = runtime.mouseIsPressed;
+    runtime.mouseIsPressed = false;
+    call('mouseReleased', event);
+    if (wasPressed) call('mouseClicked', event);
+  };
+
+  const onPointerCancel = () => {
+    runtime.mouseIsPressed = false;
+  };
+
+  const onWheel = (event: WheelEvent) => {
+    updatePointer(event);
+    call('mouseWheel', event);
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    runtime.key = event.key;
+    runtime.keyCode = event.keyCode;
+    runtime.keyIsPressed = true;
+    pressedKeys.add(event.keyCode);
+    call('keyPressed', event);
+    if (event.key.length === 1) call('keyTyped', event);
+  };
+
+  const onKeyUp = (event: KeyboardEvent) => {
+    pressedKeys.delete(event.keyCode);
+    runtime.keyIsPressed = pressedKeys.size > 0;
+    call('keyReleased', event);
+  };
+
+  const onBlur = () => {
+    pressedKeys.clear();
+    runtime.keyIsPressed = false;
+  };
+
+  // Keyboard events need a focusable canvas; remember the original tabIndex to restore it
+  const hadTabIndex = canvas.hasAttribute('tabindex');
+  const originalTabIndex = canvas.tabIndex;
+  if (!hadTabIndex) canvas.tabIndex = 0;
+
+  const listeners: [string, EventListener][] = [
+    ['pointerdown', onPointerDown as EventListener],
+    ['pointermove', onPointerMove as EventListener],
+    ['pointerup', onPointerUp as EventListener],
+    ['pointercancel', onPointerCancel],
+    ['wheel', onWheel as EventListener],
+    ['keydown', onKeyDown as EventListener],
+    ['keyup', onKeyUp as EventListener],
+    ['blur', onBlur],
+  ];
+
+  for (const [type, listener] of listeners) {
+    canvas.addEventListener(type, listener);
+  }
+
+  return () => {
+    for (const [type, listener] of listeners) {
+      canvas.removeEventListener(type, listener);
+    }
+    if (hadTabIndex) canvas.tabIndex = originalTabIndex;
+    else canvas.removeAttribute('tabindex');
+    pressedKeys.clear();
+  };
+}
@@ -16,7 +16,8 @@
  * ║  - getPreviewStats() for observability                                   ║
  * ║  - toCanonicalRequest() for handoff to @nexart/codemode-sdk              ║
  * ║                                                                          ║
- * ║  Animation runs at native RAF cadence (~60 FPS) per v0.8.8.              ║
+ * ║  Animation runs at native RAF cadence (~60 FPS) per v0.8.8,              ║
+ * ║  or at the sketch's frameRate(n) target when it sets one.                ║
  * ║  Budget system uses frame count + time limits (not FPS throttling).      ║
  * ║                                                                          ║
  * ║  For canonical output: use @nexart/codemode-sdk                          ║
@@ -32,6 +33,7 @@ import {
   type BudgetExceedReason,
   type CanonicalRequest,
   PREVIEW_BUDGET,
+  RUNTIME_LIMITS,
 } from './preview-types';
 import {
   calculateScaledDimensions,
@@ -39,7 +41,25 @@ import {
   reapplyContextScale,
   type ScaledDimensions,
 } from './canvas-scaler';
-import { createPreviewRuntime, type PreviewP5Runtime } from './preview-runtime';
+import {
+  createPreviewRuntime,
+  createSketchScope,
+  destroyRuntime,
+  beginRuntimeFrame,
+  endRuntimeFrame,
+  resetRuntimeClock,
+  getTargetFrameRate,
+  isRuntimeFrameDue,
+  type PreviewP5Runtime,
+} from './preview-runtime';
+import { createFpsThrottle, shouldRenderFrame, recordFrame, resetThrottle, frameIntervalForRate } from './frame-budget';
+import {
+  bindCanvasInput,
+  sketchHandlerRegistrationSource,
+  type SketchEventHandler,
+  type SketchEventHandlerName,
+} from './input-binding';
+import { createAssetRegistry, type AssetRegistry } from './asset-registry';
 
 const SDK_VERSION = '0.9.0';
 
@@ -48,8 +68,12 @@ let activePreviewRenderer: PreviewEngine | null = null;
 class PreviewEngine implements PreviewRenderer {
   private canvas: HTMLCanvasElement;
   private runtime: PreviewP5Runtime | null = null;
+  private assets: AssetRegistry | null = null;
+  private preloadFn: (() => void) | null = null;
   private setupFn: (() => void) | null = null;
   private drawFn: (() => void) | null = null;
+  private eventHandlers = new Map<SketchEventHandlerName, SketchEventHandler>();
+  private unbindInput: (() => void) | null = null;
   private animationFrameId: number | null = null;
   private config: PreviewEngineConfig;
   private running = false;
@@ -59,6 +83,8 @@ class PreviewEngine implements PreviewRenderer {
   private currentStride = 1;
   private budgetExceededReason: BudgetExceedReason | null = null;
   private overlayElement: HTMLDivElement | null = null;
+  private throttle = createFpsThrottle();
+  private loopGeneration = 0;
 
   readonly isCanonical = false as const;
   readonly isArchival = false as const;
@@ -78,12 +104,24 @@ class PreviewEngine implements PreviewRenderer {
     applyScaledDimensions(this.canvas, this.scaled);
     reapplyContextScale(this.canvas, this.scaled);
 
+    this.assets = createAssetRegistry(this.config.assets, {
+      maxAssets: this.config.maxAssets ?? RUNTIME_LIMITS.MAX_ASSETS,
+      maxAssetPixels: this.config.maxAssetPixels ?? RUNTIME_LIMITS.MAX_ASSET_PIXELS,
+    });
+
     this.runtime = createPreviewRuntime(
       this.canvas,
       this.scaled.originalWidth,
       this.scaled.originalHeight,
       this.config.seed ?? 12345,
-      this.config.vars ?? []
+      this.config.vars ?? [],
+      {
+        maxPixelOpsPerFrame: this.config.maxPixelOpsPerFrame,
+        maxGraphicsBuffers: this.config.maxGraphicsBuffers,
+        timing: this.config.timing,
+        assets: this.assets,
+        onResize: dims => { this.scaled = dims; },
+      }
     );
 
     const totalFrames = this.config.totalFrames ?? 120;
@@ -95,31 +133,69 @@ class PreviewEngine implements PreviewRenderer {
     } catch (error) {
       console.warn('[PreviewEngine] Error compiling source:', error);
     }
+
+    if (this.config.interactive) {
+      this.unbindInput = bindCanvasInput(
+        this.canvas,
+        this.runtime,
+        name => this.eventHandlers.get(name) ?? null
+      );
+    }
   }
 
   private compileSource(source: string): () => void {
     const runtime = this.runtime!;
     const self = this;
 
-    const globalVars = Object.keys(runtime);
-    const globalValues = Object.values(runtime);
+    const registerPreload = (fn: () => void) => { self.preloadFn = fn; };
+    const registerSetup = (fn: () => void) => { self.setupFn = fn; };
+    const registerDraw = (fn: () => void) => { self.drawFn = fn; };
+    const registerHandler = (name: SketchEventHandlerName, fn: SketchEventHandler) => {
+      self.eventHandlers.set(name, fn);
+    };
 
-    globalVars.push('setup', 'draw');
+    // Live scope so frameCount, t and pixels update between frames (see code-renderer)
+    const scope = createSketchScope(runtime, {
+      __registerPreload: registerPreload,
+      __registerSetup: registerSetup,
+      __registerDraw: registerDraw,
+      __registerHandler: registerHandler,
+    });
 
     const wrappedSource = `
-      ${source}
-      if (typeof setup === 'function') __registerSetup(setup);
-      if (typeof draw === 'function') __registerDraw(draw);
+      with (__scope) {
+        ${source}
+        if (typeof preload === 'function') __registerPreload(preload);
+        if (typeof setup === 'function') __registerSetup(setup);
+        if (typeof draw === 'function') __registerDraw(draw);
+        ${sketchHandlerRegistrationSource()}
+      }
     `;
 
-    const registerSetup = (fn: () => void) => { self.setupFn = fn; };
-    const registerDraw = (fn: () => void) => { self.drawFn = fn; };
+    const fn = new Function('__scope', wrappedSource);
+    return () => fn(scope);
+  }
 
-    globalValues.push(registerSetup, registerDraw);
-    globalVars.push('__registerSetup', '__registerDraw');
+  ready(): Promise<void> {
+    return this.assets?.ready ?? Promise.resolve();
+  }
 
-    const fn = new Function(...globalVars, wrappedSource);
-    return () => fn(...globalValues);
+  /**
+   * preload() then setup(), as one setup frame.
+   */
+  private runSetup(): void {
+    if (this.runtime) resetRuntimeClock(this.runtime);
+    try {
+      if (this.preloadFn) {
+        this.preloadFn();
+      }
+      if (this.setupFn) {
+        this.setupFn();
+      }
+    } finally {
+      // Close the frame even when setup throws, so push()/clip state can't leak
+      if (this.runtime) endRuntimeFrame(this.runtime);
+    }
   }
 
   getPreviewStats(): PreviewStats {
@@ -134,6 +210,7 @@ class PreviewEngine implements PreviewRenderer {
       frames: this.internalFrameCount,
       stride: this.currentStride,
       totalTimeMs: elapsed,
+      paused: this.runtime ? !this.runtime.isLooping() : false,
       ...(this.budgetExceededReason ? { budgetExceeded: { reason: this.budgetExceededReason } } : {}),
     };
   }
@@ -255,10 +332,12 @@ class PreviewEngine implements PreviewRenderer {
     const startTime = performance.now();
     this.startTimeMs = startTime;
 
+    if (this.assets?.isPending()) {
+      console.warn('[PreviewEngine] Assets are still decoding — await ready() before renderStatic()');
+    }
+
     try {
-      if (this.setupFn) {
-        this.setupFn();
-      }
+      this.runSetup();
 
       return {
         success: true,
@@ -293,11 +372,22 @@ class PreviewEngine implements PreviewRenderer {
     this.currentStride = 1;
     this.budgetExceededReason = null;
     this.removeOverlay();
+    resetThrottle(this.throttle);
+
+    // Like p5's preload phase, setup() waits until registered images have decoded
+    const generation = ++this.loopGeneration;
+    if (this.assets?.isPending()) {
+      this.assets.ready.then(() => {
+        if (this.running && this.loopGeneration === generation) this.beginLoop();
+      });
+      return;
+    }
+    this.beginLoop();
+  }
 
+  private beginLoop(): void {
     try {
-      if (this.setupFn) {
-        this.setupFn();
-      }
+      this.runSetup();
     } catch (error) {
       console.warn('[PreviewEngine] Setup error:', error);
     }
@@ -307,7 +397,7 @@ class PreviewEngine implements PreviewRenderer {
 
   /**
    * Animation loop — runs at native RAF cadence (~60 FPS).
-   * No FPS throttle per v0.8.8 decision.
+   * No default FPS throttle per v0.8.8 decision; a sketch's frameRate(n) sets one.
    * Budget system uses frame count and time limits only.
    */
   private scheduleNextFrame(): void {
@@ -318,6 +408,16 @@ class PreviewEngine implements PreviewRenderer {
       // Exit if stopped
       if (!this.running) return;
 
+      // noLoop() pauses draw() until loop() or redraw(n)
+      if (this.runtime && !isRuntimeFrameDue(this.runtime)) return;
+
+      // Sketch-requested cadence — skip RAF ticks until the next frame is due
+      const targetFps = this.runtime ? getTargetFrameRate(this.runtime) : null;
+      if (targetFps !== null) {
+        if (!shouldRenderFrame(this.throttle, frameIntervalForRate(targetFps))) return;
+        recordFrame(this.throttle);
+      }
+
       this.internalFrameCount++;
 
       // Check budget — fires callback once when exceeded
@@ -342,6 +442,7 @@ class PreviewEngine implements PreviewRenderer {
           this.runtime.t = (this.internalFrameCount % totalFrames) / totalFrames;
           this.runtime.time = this.runtime.t;
           this.runtime.tGlobal = this.runtime.t;
+          beginRuntimeFrame(this.runtime);
         }
 
         if (this.drawFn) {
@@ -349,6 +450,8 @@ class PreviewEngine implements PreviewRenderer {
         }
       } catch (error) {
         console.warn('[PreviewEngine] Draw error:', error);
+      } finally {
+        if (this.runtime) endRuntimeFrame(this.runtime);
       }
     });
   }
@@ -371,7 +474,13 @@ class PreviewEngine implements PreviewRenderer {
   destroy(): void {
     this.stopLoop();
     this.removeOverlay();
+    this.unbindInput?.();
+    this.unbindInput = null;
+    this.eventHandlers.clear();
+    if (this.runtime) destroyRuntime(this.runtime);
     this.runtime = null;
+    this.assets = null;
+    this.preloadFn = null;
     this.setupFn = null;
     this.drawFn = null;
   }
@@ -388,6 +497,8 @@ export function createPreviewEngine(config: PreviewEngineConfig): PreviewRendere
 
 /**
  * Render a static preview (single frame).
+ * Data URL assets decode asynchronously — pass decoded images here, or use
+ * createPreviewEngine() and await ready() first.
  */
 export function renderStaticPreview(config: PreviewEngineConfig): PreviewRenderResult {
   const engine = new PreviewEngine(config);
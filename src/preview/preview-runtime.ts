@@ -17,6 +17,14 @@
  * ╚══════════════════════════════════════════════════════════════════════════╝
  */
 
+import { RUNTIME_LIMITS, type RuntimeTimingMode } from './preview-types';
+import { calculateScaledDimensions, applyScaledDimensions, reapplyContextScale, type ScaledDimensions } from './canvas-scaler';
+import { PreviewColor, toPreviewColor, rgbToHsb, hsbToRgb, rgbToHsl, hslToRgb, type ColorLevels } from './runtime-color';
+import { createDrawingContext, getSemanticTransform } from './drawing-context';
+import { createSimplexNoise, createWorleyNoise } from './runtime-noise';
+import { FILTER_KINDS, applyPixelFilter, cssFilterFor, type FilterKind } from './runtime-filters';
+import type { AssetRegistry, DecodedAsset } from './asset-registry';
+
 export interface PreviewP5Runtime {
   [key: string]: any;
   mode: 'preview';
@@ -72,6 +80,597 @@ function createSimpleNoise(seed: number = 0) {
   };
 }
 
+interface ShapeBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Resolve p5 shape-mode arguments into a top-left box.
+ * CORNERS boxes are normalized so either corner may come first.
+ */
+function resolveShapeBox(mode: string, a: number, b: number, c: number, d: number): ShapeBox {
+  switch (mode) {
+    case 'center':
+      return { x: a - c / 2, y: b - d / 2, w: c, h: d };
+    case 'radius':
+      return { x: a - c, y: b - d, w: c * 2, h: d * 2 };
+    case 'corners':
+      return { x: Math.min(a, c), y: Math.min(b, d), w: Math.abs(c - a), h: Math.abs(d - b) };
+    case 'corner':
+    default:
+      return { x: a, y: b, w: c, h: d };
+  }
+}
+
+/**
+ * Cardinal spline basis (Catmull-Rom at tightness 0), matching p5's curve().
+ * Tangents at b and c are scaled by (1 - tightness) / 2.
+ */
+function curvePointAt(a: number, b: number, c: number, d: number, t: number, tightness: number): number {
+  const k = (1 - tightness) / 2;
+  const t2 = t * t, t3 = t2 * t;
+  const h00 = 2 * t3 - 3 * t2 + 1;
+  const h10 = t3 - 2 * t2 + t;
+  const h01 = -2 * t3 + 3 * t2;
+  const h11 = t3 - t2;
+  return h00 * b + h10 * k * (c - a) + h01 * c + h11 * k * (d - b);
+}
+
+function curveTangentAt(a: number, b: number, c: number, d: number, t: number, tightness: number): number {
+  const k = (1 - tightness) / 2;
+  const t2 = t * t;
+  const h00 = 6 * t2 - 6 * t;
+  const h10 = 3 * t2 - 4 * t + 1;
+  const h01 = -6 * t2 + 6 * t;
+  const h11 = 3 * t2 - 2 * t;
+  return h00 * b + h10 * k * (c - a) + h01 * c + h11 * k * (d - b);
+}
+
+function bezierPointAt(a: number, b: number, c: number, d: number, t: number): number {
+  const u = 1 - t;
+  return u * u * u * a + 3 * u * u * t * b + 3 * u * t * t * c + t * t * t * d;
+}
+
+function bezierTangentAt(a: number, b: number, c: number, d: number, t: number): number {
+  const u = 1 - t;
+  return 3 * u * u * (b - a) + 6 * u * t * (c - b) + 3 * t * t * (d - c);
+}
+
+interface ArcLengthPath {
+  /** Approximate length of the path */
+  length: number;
+  /** Parameter t at distance fraction u (0..1) along the path */
+  paramAt: (u: number) => number;
+  /** Point at distance fraction u (0..1) — evenly spaced u gives evenly spaced points */
+  pointAt: (u: number) => { x: number; y: number };
+}
+
+/**
+ * Arc-length parameterization of a path t → point (t in 0..1), from a polyline
+ * of `samples` segments. Lets sketches move along curves at constant speed.
+ */
+function createArcLengthPath(
+  pointAtT: (t: number) => { x: number; y: number },
+  samples: number = 64
+): ArcLengthPath {
+  const n = Math.max(1, Math.floor(samples));
+  const lengths = new Float64Array(n + 1);
+  let prev = pointAtT(0);
+  for (let i = 1; i <= n; i++) {
+    const pt = pointAtT(i / n);
+    lengths[i] = lengths[i - 1] + Math.hypot(pt.x - prev.x, pt.y - prev.y);
+    prev = pt;
+  }
+  const total = lengths[n];
+
+  const paramAt = (u: number): number => {
+    const clamped = Math.max(0, Math.min(1, u));
+    if (total === 0) return clamped;
+    const target = clamped * total;
+    let lo = 0, hi = n;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (lengths[mid] < target) lo = mid;
+      else hi = mid;
+    }
+    const span = lengths[hi] - lengths[lo];
+    return (lo + (span > 0 ? (target - lengths[lo]) / span : 0)) / n;
+  };
+
+  return { length: total, paramAt, pointAt: (u: number) => pointAtT(paramAt(u)) };
+}
+
+/**
+ * Bezier control points for the spline segment p1 → p2 (with neighbours p0, p3).
+ */
+function curveSegmentControls(
+  p0: { x: number; y: number },
+  p1: { x: number; y: number },
+  p2: { x: number; y: number },
+  p3: { x: number; y: number },
+  tightness: number
+): [number, number, number, number] {
+  const k = (1 - tightness) / 6;
+  return [
+    p1.x + k * (p2.x - p0.x), p1.y + k * (p2.y - p0.y),
+    p2.x - k * (p3.x - p1.x), p2.y - k * (p3.y - p1.y),
+  ];
+}
+
+/**
+ * Append the spline segment p1 → p2 (with neighbours p0, p3) as an exact cubic bezier.
+ */
+function curveSegmentTo(
+  ctx: CanvasRenderingContext2D,
+  p0: { x: number; y: number },
+  p1: { x: number; y: number },
+  p2: { x: number; y: number },
+  p3: { x: number; y: number },
+  tightness: number
+): void {
+  const [c1x, c1y, c2x, c2y] = curveSegmentControls(p0, p1, p2, p3, tightness);
+  ctx.bezierCurveTo(c1x, c1y, c2x, c2y, p2.x, p2.y);
+}
+
+/**
+ * Greedy line breaking for text boxes.
+ * WORD wraps at spaces (long words overflow, as in p5); CHAR wraps at any character.
+ */
+function wrapTextLines(text: string, maxWidth: number, mode: string, measure: (s: string) => number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    const tokens = mode === 'char' ? paragraph.split('') : paragraph.split(/(\s+)/);
+    let line = '';
+    for (const token of tokens) {
+      const candidate = line + token;
+      if (line.trim() !== '' && measure(candidate.trimEnd()) > maxWidth) {
+        lines.push(line.trimEnd());
+        line = mode === 'char' ? token : token.trimStart();
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
+
+/**
+ * Recorded beginShape() geometry, replayed at endShape() so shape kinds
+ * and contours can be resolved once all vertices are known.
+ */
+type PathCommand =
+  | { op: 'vertex'; x: number; y: number }
+  | { op: 'bezier'; c1x: number; c1y: number; c2x: number; c2y: number; x: number; y: number }
+  | { op: 'quadratic'; cx: number; cy: number; x: number; y: number };
+
+function tracePath(ctx: CanvasRenderingContext2D, commands: PathCommand[]): void {
+  commands.forEach((cmd, i) => {
+    if (cmd.op === 'vertex') {
+      if (i === 0) ctx.moveTo(cmd.x, cmd.y);
+      else ctx.lineTo(cmd.x, cmd.y);
+    } else if (cmd.op === 'bezier') {
+      ctx.bezierCurveTo(cmd.c1x, cmd.c1y, cmd.c2x, cmd.c2y, cmd.x, cmd.y);
+    } else {
+      ctx.quadraticCurveTo(cmd.cx, cmd.cy, cmd.x, cmd.y);
+    }
+  });
+}
+
+/**
+ * Split vertices into the polygons a beginShape() kind describes.
+ * Returns null for kinds that are not polygon-based (POINTS, LINES, default).
+ */
+function polygonsForKind(kind: string, v: { x: number; y: number }[]): { x: number; y: number }[][] | null {
+  const polys: { x: number; y: number }[][] = [];
+  switch (kind) {
+    case 'triangles':
+      for (let i = 0; i + 2 < v.length; i += 3) polys.push([v[i], v[i + 1], v[i + 2]]);
+      return polys;
+    case 'triangle_strip':
+      for (let i = 0; i + 2 < v.length; i++) polys.push([v[i], v[i + 1], v[i + 2]]);
+      return polys;
+    case 'triangle_fan':
+      for (let i = 1; i + 1 < v.length; i++) polys.push([v[0], v[i], v[i + 1]]);
+      return polys;
+    case 'quads':
+      for (let i = 0; i + 3 < v.length; i += 4) polys.push([v[i], v[i + 1], v[i + 2], v[i + 3]]);
+      return polys;
+    case 'quad_strip':
+      for (let i = 0; i + 3 < v.length; i += 2) polys.push([v[i], v[i + 1], v[i + 3], v[i + 2]]);
+      return polys;
+    default:
+      return null;
+  }
+}
+
+/** Fill/stroke paint: a CSS color or a gradient from linearGradient() & co. */
+type PaintStyle = string | CanvasGradient;
+
+/** Gradient stops: colors spaced evenly, or explicit [offset, color] pairs */
+type GradientStops = (unknown | [number, unknown])[];
+
+/**
+ * Drawing state saved and restored by push()/pop(), mirroring p5.
+ * Canvas-level state (transform, composite op, line cap/join) rides on ctx.save().
+ */
+interface RuntimeStyle {
+  fill: PaintStyle;
+  stroke: PaintStyle;
+  fillEnabled: boolean;
+  strokeEnabled: boolean;
+  strokeWeight: number;
+  colorMode: { mode: string; maxR: number; maxG: number; maxB: number; maxA: number };
+  rectMode: string;
+  ellipseMode: string;
+  imageMode: string;
+  curveTightness: number;
+  textFont: string;
+  textSize: number;
+  textStyle: string;
+  textLeading: number;
+  textWrap: string;
+  textAlignH: string;
+  textAlignV: string;
+  blendMode: GlobalCompositeOperation;
+  /** tint() levels (0-255) applied to image(), or null */
+  tint: ColorLevels | null;
+  /** erase() strengths (0-255) while erasing, otherwise null */
+  erasing: { fill: number; stroke: number } | null;
+}
+
+function createDefaultStyle(): RuntimeStyle {
+  return {
+    fill: 'rgba(255, 255, 255, 1)',
+    stroke: 'rgba(0, 0, 0, 1)',
+    fillEnabled: true,
+    strokeEnabled: true,
+    strokeWeight: 1,
+    colorMode: { mode: 'RGB', maxR: 255, maxG: 255, maxB: 255, maxA: 255 },
+    rectMode: 'corner',
+    ellipseMode: 'center',
+    imageMode: 'corner',
+    curveTightness: 0,
+    textFont: 'sans-serif',
+    textSize: 12,
+    textStyle: 'normal',
+    textLeading: 15,
+    textWrap: 'word',
+    textAlignH: 'left',
+    textAlignV: 'alphabetic',
+    blendMode: 'source-over',
+    tint: null,
+    erasing: null,
+  };
+}
+
+function cloneStyle(style: RuntimeStyle): RuntimeStyle {
+  return { ...style, colorMode: { ...style.colorMode } };
+}
+
+/**
+ * Engine-facing hooks that must stay out of sketch scope.
+ * Engines build sketch globals from Object.keys(runtime), so these live in a WeakMap.
+ */
+interface RuntimeInternals {
+  frameDue: () => boolean;
+  beginFrame: () => void;
+  endFrame: () => void;
+  resetClock: () => void;
+  destroy: () => void;
+  pressedKeys: Set<number>;
+  targetFrameRate: () => number | null;
+}
+
+const runtimeInternals = new WeakMap<PreviewP5Runtime, RuntimeInternals>();
+
+/**
+ * Start a draw() call: advances deltaTime, millis() and the measured frame rate.
+ * Wall-clock runtimes measure real elapsed time; frame-locked runtimes advance by
+ * exactly 1000 / frameRate() ms per frame so captures are reproducible.
+ */
+export function beginRuntimeFrame(runtime: PreviewP5Runtime): void {
+  runtimeInternals.get(runtime)?.beginFrame();
+}
+
+/**
+ * Whether the next RAF tick should run draw(): always while looping, otherwise only
+ * for the first frame after setup() and for frames requested with redraw(n).
+ * beginRuntimeFrame() consumes one requested frame.
+ */
+export function isRuntimeFrameDue(runtime: PreviewP5Runtime): boolean {
+  return runtimeInternals.get(runtime)?.frameDue() ?? true;
+}
+
+/**
+ * Restart the runtime clock (millis() = 0) and draw state. Called by the engines before setup().
+ */
+export function resetRuntimeClock(runtime: PreviewP5Runtime): void {
+  runtimeInternals.get(runtime)?.resetClock();
+}
+
+/**
+ * Cadence requested by the sketch through frameRate(n), or null for native RAF speed.
+ */
+export function getTargetFrameRate(runtime: PreviewP5Runtime): number | null {
+  return runtimeInternals.get(runtime)?.targetFrameRate() ?? null;
+}
+
+/**
+ * Close out a setup()/draw() call.
+ * Warns (once per runtime) about unbalanced push()/pop() and unwinds leftover pushes
+ * so state cannot leak or accumulate across frames.
+ */
+export function endRuntimeFrame(runtime: PreviewP5Runtime): void {
+  runtimeInternals.get(runtime)?.endFrame();
+}
+
+/**
+ * Runtime properties that change after compile time (updated by the engines,
+ * or replaced by loadPixels()). Sketch scopes must read these live — see CHANGELOG v0.8.7.
+ */
+export const LIVE_RUNTIME_PROPS: readonly string[] = [
+  'frameCount', 't', 'time', 'tGlobal', 'totalFrames', 'pixels', 'deltaTime', 'width', 'height',
+  'mouseX', 'mouseY', 'pmouseX', 'pmouseY', 'mouseIsPressed', 'mouseButton',
+  'key', 'keyCode', 'keyIsPressed',
+];
+
+/**
+ * Build a `with()` scope for sketch source.
+ *
+ * Live properties are read from the runtime on every access; everything else
+ * (functions, constants) is cached once. has() returns true ONLY for known keys,
+ * otherwise globals (Math, window, etc.) would be masked and become undefined.
+ */
+export function createSketchScope(
+  runtime: PreviewP5Runtime,
+  extras: Record<string, unknown> = {}
+): Record<string, any> {
+  const liveProps = new Set(LIVE_RUNTIME_PROPS);
+  const staticCache: Record<string, any> = {};
+  for (const key of Object.keys(runtime)) {
+    if (!liveProps.has(key)) {
+      staticCache[key] = runtime[key];
+    }
+  }
+
+  const knownKeys = new Set([
+    ...liveProps,
+    ...Object.keys(staticCache),
+    ...Object.keys(extras),
+  ]);
+
+  return new Proxy({} as Record<string, any>, {
+    has: (_, prop: string) => knownKeys.has(prop),
+    get: (_, prop: string) => {
+      if (liveProps.has(prop)) return runtime[prop];
+      if (prop in extras) return extras[prop];
+      if (prop in staticCache) return staticCache[prop];
+      return undefined;
+    },
+  });
+}
+
+/**
+ * Release a runtime's resources (graphics buffers and their canvases).
+ * Called by the engines on destroy() and before recompiling.
+ */
+export function destroyRuntime(runtime: PreviewP5Runtime): void {
+  runtimeInternals.get(runtime)?.destroy();
+}
+
+type VectorLike = { x: number; y: number; z?: number } | number[];
+
+/**
+ * Build a p5.Vector-compatible class bound to a runtime's seeded RNG.
+ * Instances expose x/y/z, so they can be passed to the plain-object vec* helpers,
+ * and every method that takes a vector also accepts { x, y } objects or arrays.
+ */
+function createVectorClass(random: () => number) {
+  const read = (v: VectorLike | number, y?: number, z?: number): [number, number, number] => {
+    if (typeof v === 'number') return [v, y ?? v, z ?? (y === undefined ? v : 1)];
+    if (Array.isArray(v)) return [v[0] ?? 0, v[1] ?? 0, v[2] ?? 0];
+    return [v.x ?? 0, v.y ?? 0, v.z ?? 0];
+  };
+
+  class PreviewVector {
+    x: number;
+    y: number;
+    z: number;
+
+    constructor(x: number = 0, y: number = 0, z: number = 0) {
+      this.x = x;
+      this.y = y;
+      this.z = z;
+    }
+
+    set(x: VectorLike | number = 0, y?: number, z?: number): this {
+      if (typeof x === 'number') {
+        this.x = x;
+        this.y = y ?? 0;
+        this.z = z ?? 0;
+      } else {
+        [this.x, this.y, this.z] = read(x);
+      }
+      return this;
+    }
+
+    copy(): PreviewVector { return new PreviewVector(this.x, this.y, this.z); }
+
+    add(x: VectorLike | number, y?: number, z?: number): this {
+      const [ax, ay, az] = typeof x === 'number' ? [x, y ?? 0, z ?? 0] : read(x);
+      this.x += ax; this.y += ay; this.z += az;
+      return this;
+    }
+
+    sub(x: VectorLike | number, y?: number, z?: number): this {
+      const [ax, ay, az] = typeof x === 'number' ? [x, y ?? 0, z ?? 0] : read(x);
+      this.x -= ax; this.y -= ay; this.z -= az;
+      return this;
+    }
+
+    // A single number scales every component; a vector multiplies component-wise
+    mult(n: VectorLike | number, y?: number, z?: number): this {
+      const [mx, my, mz] = read(n, y, z);
+      this.x *= mx; this.y *= my; this.z *= mz;
+      return this;
+    }
+
+    div(n: VectorLike | number, y?: number, z?: number): this {
+      const [dx, dy, dz] = read(n, y, z);
+      if (dx === 0 || dy === 0 || dz === 0) return this;
+      this.x /= dx; this.y /= dy; this.z /= dz;
+      return this;
+    }
+
+    mag(): number { return Math.sqrt(this.magSq()); }
+    magSq(): number { return this.x * this.x + this.y * this.y + this.z * this.z; }
+
+    dot(x: VectorLike | number, y?: number, z?: number): number {
+      const [bx, by, bz] = typeof x === 'number' ? [x, y ?? 0, z ?? 0] : read(x);
+      return this.x * bx + this.y * by + this.z * bz;
+    }
+
+    cross(v: VectorLike): PreviewVector {
+      const [bx, by, bz] = read(v);
+      return new PreviewVector(this.y * bz - this.z * by, this.z * bx - this.x * bz, this.x * by - this.y * bx);
+    }
+
+    dist(v: VectorLike): number {
+      const [bx, by, bz] = read(v);
+      return Math.sqrt((bx - this.x) ** 2 + (by - this.y) ** 2 + (bz - this.z) ** 2);
+    }
+
+    normalize(): this {
+      const m = this.mag();
+      if (m !== 0) this.mult(1 / m);
+      return this;
+    }
+
+    limit(max: number): this {
+      const mSq = this.magSq();
+      if (mSq > max * max) this.mult(max / Math.sqrt(mSq));
+      return this;
+    }
+
+    setMag(len: number): this { return this.normalize().mult(len); }
+
+    heading(): number { return Math.atan2(this.y, this.x); }
+
+    setHeading(angle: number): this {
+      const m = this.mag();
+      this.x = m * Math.cos(angle);
+      this.y = m * Math.sin(angle);
+      return this;
+    }
+
+    rotate(angle: number): this { return this.setHeading(this.heading() + angle); }
+
+    angleBetween(v: VectorLike): number {
+      const other = new PreviewVector(...read(v));
+      const denom = this.mag() * other.mag();
+      if (denom === 0) return 0;
+      const angle = Math.acos(Math.max(-1, Math.min(1, this.dot(other) / denom)));
+      // Signed in 2D, matching p5
+      return angle * (Math.sign(this.x * other.y - this.y * other.x) || 1);
+    }
+
+    lerp(x: VectorLike | number, y?: number, z?: number, amt?: number): this {
+      let tx: number, ty: number, tz: number, t: number;
+      if (typeof x === 'number') {
+        [tx, ty, tz, t] = [x, y ?? 0, z ?? 0, amt ?? 0];
+      } else {
+        [tx, ty, tz] = read(x);
+        t = y ?? 0;
+      }
+      this.x += (tx - this.x) * t;
+      this.y += (ty - this.y) * t;
+      this.z += (tz - this.z) * t;
+      return this;
+    }
+
+    equals(x: VectorLike | number, y?: number, z?: number): boolean {
+      const [bx, by, bz] = typeof x === 'number' ? [x, y ?? 0, z ?? 0] : read(x);
+      return this.x === bx && this.y === by && this.z === bz;
+    }
+
+    array(): number[] { return [this.x, this.y, this.z]; }
+    toString(): string { return `vector[${this.x}, ${this.y}, ${this.z}]`; }
+
+    static fromAngle(angle: number, length: number = 1): PreviewVector {
+      return new PreviewVector(length * Math.cos(angle), length * Math.sin(angle), 0);
+    }
+
+    static fromAngles(theta: number, phi: number, length: number = 1): PreviewVector {
+      return new PreviewVector(
+        length * Math.sin(theta) * Math.sin(phi),
+        -length * Math.cos(theta),
+        length * Math.sin(theta) * Math.cos(phi)
+      );
+    }
+
+    static random2D(): PreviewVector {
+      return PreviewVector.fromAngle(random() * Math.PI * 2);
+    }
+
+    static random3D(): PreviewVector {
+      const angle = random() * Math.PI * 2;
+      const vz = random() * 2 - 1;
+      const r = Math.sqrt(1 - vz * vz);
+      return new PreviewVector(r * Math.cos(angle), r * Math.sin(angle), vz);
+    }
+
+    static add(a: VectorLike, b: VectorLike): PreviewVector { return new PreviewVector(...read(a)).add(b); }
+    static sub(a: VectorLike, b: VectorLike): PreviewVector { return new PreviewVector(...read(a)).sub(b); }
+    static mult(v: VectorLike, n: VectorLike | number): PreviewVector { return new PreviewVector(...read(v)).mult(n); }
+    static div(v: VectorLike, n: VectorLike | number): PreviewVector { return new PreviewVector(...read(v)).div(n); }
+    static dot(a: VectorLike, b: VectorLike): number { return new PreviewVector(...read(a)).dot(b); }
+    static cross(a: VectorLike, b: VectorLike): PreviewVector { return new PreviewVector(...read(a)).cross(b); }
+    static dist(a: VectorLike, b: VectorLike): number { return new PreviewVector(...read(a)).dist(b); }
+    static mag(v: VectorLike): number { return new PreviewVector(...read(v)).mag(); }
+    static normalize(v: VectorLike): PreviewVector { return new PreviewVector(...read(v)).normalize(); }
+    static lerp(a: VectorLike, b: VectorLike, amt: number): PreviewVector { return new PreviewVector(...read(a)).lerp(b, amt); }
+    static angleBetween(a: VectorLike, b: VectorLike): number { return new PreviewVector(...read(a)).angleBetween(b); }
+  }
+
+  return PreviewVector;
+}
+
+/**
+ * Key codes currently held, shared with the input binding (backs keyIsDown()).
+ */
+export function getPressedKeys(runtime: PreviewP5Runtime): Set<number> {
+  return runtimeInternals.get(runtime)?.pressedKeys ?? new Set<number>();
+}
+
+interface ImageSourceInfo {
+  source: CanvasImageSource;
+  /** Semantic size used when image() is given no destination size */
+  width: number;
+  height: number;
+  /** Source pixels per semantic unit (graphics buffers are scaled like the main canvas) */
+  density: number;
+}
+
+/** Handle returned by loadImage(); 0×0 until its registry entry has decoded */
+interface LoadedImage {
+  readonly name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Images returned by loadImage(), mapped to their registry entry.
+ * Module-level so a handle loaded by the sketch also draws into createGraphics() buffers.
+ */
+const loadedImages = new WeakMap<object, DecodedAsset>();
+
+/** Tinted copies of registry images, one per image (assets never change, so the last tint is reused) */
+const tintCache = new WeakMap<object, { key: string; canvas: HTMLCanvasElement }>();
+
 function normalizeVars(vars?: number[]): number[] {
   if (!vars || !Array.isArray(vars)) {
     return [0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
@@ -89,70 +688,394 @@ function normalizeVars(vars?: number[]): number[] {
   return result;
 }
 
+/**
+ * Optional runtime configuration supplied by the engines.
+ */
+export interface PreviewRuntimeOptions {
+  /** Pixels read or written per frame by the pixel API (default: RUNTIME_LIMITS.MAX_PIXEL_OPS_PER_FRAME) */
+  maxPixelOpsPerFrame?: number;
+  /** Live createGraphics() buffers allowed (default: RUNTIME_LIMITS.MAX_GRAPHICS_BUFFERS) */
+  maxGraphicsBuffers?: number;
+  /** Clock behind millis() and deltaTime (default: 'wall-clock') */
+  timing?: RuntimeTimingMode;
+  /** Host-registered images behind loadImage(name) */
+  assets?: AssetRegistry;
+  /** Called after createCanvas()/resizeCanvas() re-scales the canvas */
+  onResize?: (dimensions: ScaledDimensions) => void;
+}
+
+/** Frame rate assumed by frame-locked timing until the sketch calls frameRate(n) */
+const DEFAULT_FRAME_RATE = 60;
+
+const COMPOSITE_OPERATIONS: ReadonlySet<string> = new Set([
+  'source-over', 'source-in', 'source-out', 'source-atop',
+  'destination-over', 'destination-in', 'destination-out', 'destination-atop',
+  'lighter', 'copy', 'xor', 'multiply', 'screen', 'overlay', 'darken', 'lighten',
+  'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion',
+  'hue', 'saturation', 'color', 'luminosity',
+]);
+
+/** p5 / Code Mode blend names that are not canvas composite operations */
+const BLEND_MODE_ALIASES: Record<string, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  blend: 'source-over',
+  add: 'lighter',
+};
+
+/**
+ * Snapshot the context state sketches set directly (transform, shadow, line style)
+ * and return a function that re-applies it — used when restore() drops a clip
+ * that was saved before that state was set.
+ */
+function keepContextState(ctx: CanvasRenderingContext2D): () => void {
+  const transform = ctx.getTransform();
+  const { lineWidth, lineCap, lineJoin, lineDashOffset, shadowBlur, shadowOffsetX, shadowOffsetY, shadowColor } = ctx;
+  const lineDash = ctx.getLineDash();
+  return () => {
+    ctx.setTransform(transform);
+    ctx.lineWidth = lineWidth;
+    ctx.lineCap = lineCap;
+    ctx.lineJoin = lineJoin;
+    ctx.setLineDash(lineDash);
+    ctx.lineDashOffset = lineDashOffset;
+    ctx.shadowBlur = shadowBlur;
+    ctx.shadowOffsetX = shadowOffsetX;
+    ctx.shadowOffsetY = shadowOffsetY;
+    ctx.shadowColor = shadowColor;
+  };
+}
+
+/**
+ * Canvas composite operation for a blendMode() argument, or null when the mode is unknown.
+ */
+function toCompositeOperation(mode: unknown): GlobalCompositeOperation | null {
+  const name = String(mode).toLowerCase();
+  if (name in BLEND_MODE_ALIASES) return BLEND_MODE_ALIASES[name];
+  return COMPOSITE_OPERATIONS.has(name) ? name as GlobalCompositeOperation : null;
+}
+
 export function createPreviewRuntime(
   canvas: HTMLCanvasElement,
   width: number,
   height: number,
   seed: number = 12345,
-  vars: number[] = []
+  vars: number[] = [],
+  options: PreviewRuntimeOptions = {}
 ): PreviewP5Runtime {
   const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
   
-  let currentFill = 'rgba(255, 255, 255, 1)';
-  let currentStroke = 'rgba(0, 0, 0, 1)';
-  let strokeEnabled = true;
-  let fillEnabled = true;
-  let currentStrokeWeight = 1;
-  let colorMode = { mode: 'RGB', maxR: 255, maxG: 255, maxB: 255, maxA: 255 };
-  let shapeStarted = false;
+  let style = createDefaultStyle();
+  const styleStack: RuntimeStyle[] = [];
+  let overflowDepth = 0;
+  let unmatchedPops = 0;
+  let warnedUnbalanced = false;
+  let shapeKind: string | null = null;
+  let shapePaths: PathCommand[][] = [[]];
+  let inContour = false;
+  let curveVertices: { x: number; y: number }[] = [];
+  const activePath = () => shapePaths[shapePaths.length - 1];
+
+  const applyFont = () => {
+    const cssStyle = style.textStyle === 'bold italic' ? 'italic bold' : style.textStyle;
+    ctx.font = `${cssStyle === 'normal' ? '' : cssStyle + ' '}${style.textSize}px ${style.textFont}`;
+  };
+
+  const measureText = (str: string): number => {
+    applyFont();
+    return Math.max(0, ...str.split('\n').map(line => ctx.measureText(line).width));
+  };
+
+  const fontMetrics = (): { ascent: number; descent: number } => {
+    applyFont();
+    const m = ctx.measureText('Mg');
+    return {
+      ascent: m.actualBoundingBoxAscent || style.textSize * 0.8,
+      descent: m.actualBoundingBoxDescent || style.textSize * 0.2,
+    };
+  };
+
+  // Between beginClip() and endClip(), shapes add their outlines to one pending
+  // clip path (transforms applied as they are traced) instead of painting.
+  let clipRecording: { invert: boolean } | null = null;
+  // clip() calls made outside push(); each holds a ctx.save() that endFrame unwinds
+  let frameClips = 0;
+
+  // While recording a clip, shapes share one path; curved shapes pass their start point
+  // so they open a new subpath instead of joining the previous shape with a line
+  const beginShapePath = (startX?: number, startY?: number) => {
+    if (!clipRecording) ctx.beginPath();
+    else if (startX !== undefined && startY !== undefined) ctx.moveTo(startX, startY);
+  };
+
+  // While erasing, paint alpha sets how much destination-out removes
+  const fillPaint = (): PaintStyle =>
+    style.erasing ? `rgba(255, 255, 255, ${style.erasing.fill / 255})` : style.fill;
+  const strokePaint = (): PaintStyle =>
+    style.erasing ? `rgba(255, 255, 255, ${style.erasing.stroke / 255})` : style.stroke;
+
+  const drawTextLine = (line: string, x: number, y: number) => {
+    if (clipRecording) return;
+    if (style.fillEnabled) { ctx.fillStyle = fillPaint(); ctx.fillText(line, x, y); }
+    if (style.strokeEnabled) { ctx.strokeStyle = strokePaint(); ctx.lineWidth = style.strokeWeight; ctx.strokeText(line, x, y); }
+  };
+
+  const strokePath = () => {
+    if (clipRecording || !style.strokeEnabled) return;
+    ctx.strokeStyle = strokePaint();
+    ctx.lineWidth = style.strokeWeight;
+    ctx.stroke();
+  };
+
+  const paintPath = (fillRule: CanvasFillRule = 'nonzero') => {
+    if (clipRecording) return;
+    if (style.fillEnabled) { ctx.fillStyle = fillPaint(); ctx.fill(fillRule); }
+    strokePath();
+  };
 
   let rng = createSeededRNG(seed);
+  // Second Box-Muller value, reused by the next randomGaussian() call
+  let gaussianSpare: number | null = null;
   let noiseFunc = createSimpleNoise(seed);
+  let simplex = createSimplexNoise(createSeededRNG(seed));
+  let worley = createWorleyNoise(createSeededRNG(seed));
   let noiseOctaves = 4;
   let noiseFalloff = 0.5;
 
+  // Pixel API works on the scaled canvas buffer; semantic coords map through bufferScale()
+  const bufferScale = () => canvas.width / width;
+  const maxPixelOps = options.maxPixelOpsPerFrame ?? RUNTIME_LIMITS.MAX_PIXEL_OPS_PER_FRAME;
+  let pixelOps = 0;
+  let warnedPixelBudget = false;
+  let pixelImage: ImageData | null = null;
+
+  const spendPixelOps = (count: number): boolean => {
+    if (pixelOps + count > maxPixelOps) {
+      if (!warnedPixelBudget) {
+        warnedPixelBudget = true;
+        console.warn(`[PreviewRuntime] Pixel budget (${maxPixelOps} ops/frame) exceeded — skipping pixel operations`);
+      }
+      return false;
+    }
+    pixelOps += count;
+    return true;
+  };
+
+  const toBufferRect = (x: number, y: number, w: number, h: number) => {
+    const scale = bufferScale();
+    return {
+      x: Math.floor(x * scale),
+      y: Math.floor(y * scale),
+      w: Math.max(1, Math.round(w * scale)),
+      h: Math.max(1, Math.round(h * scale)),
+    };
+  };
+
+  // createCanvas()/resizeCanvas() change the semantic size; the buffer is re-scaled
+  // exactly as the engines scale it at startup (canvas-scaler)
+  const declaredWidth = width;
+  const declaredHeight = height;
+
+  /** Returns whether the size changed */
+  const resizeSemanticCanvas = (fnName: string, w: number, h: number): boolean => {
+    if (!Number.isFinite(w) || !Number.isFinite(h) || w <= 0 || h <= 0) {
+      console.warn(`[PreviewRuntime] ${fnName}(${w}, ${h}): width and height must be positive numbers — ignoring`);
+      return false;
+    }
+    // Unchanged size: nothing to do, and no repeat warning for sketches that call this every frame
+    if (w === width && h === height) return false;
+    if (w !== declaredWidth || h !== declaredHeight) {
+      console.warn(`[PreviewRuntime] ${fnName}(${w}, ${h}) does not match the declared ${declaredWidth}×${declaredHeight} canvas — previewing at ${w}×${h}`);
+    }
+
+    const wasScaled = canvas.width !== width;
+    const dims = calculateScaledDimensions(w, h);
+    applyScaledDimensions(canvas, dims);
+    reapplyContextScale(canvas, dims);
+    // applyScaledDimensions only sets a CSS size for scaled canvases; drop the stale one
+    if (wasScaled && !dims.wasScaled) {
+      canvas.style.width = '';
+      canvas.style.height = '';
+    }
+
+    width = w;
+    height = h;
+    p.width = w;
+    p.height = h;
+    pixelImage = null;
+    // Resizing resets the context state the runtime keeps across draws
+    ctx.globalCompositeOperation = style.erasing ? 'destination-out' : style.blendMode;
+    options.onResize?.(dims);
+    return true;
+  };
+
+  const pressedKeys = new Set<number>();
+
+  const timing = options.timing ?? 'wall-clock';
+  let targetFrameRate: number | null = null;
+  let clockStartMs = performance.now();
+  let lastFrameMs = clockStartMs;
+  let lockedClockMs = 0;
+  let measuredFrameRate = 0;
+
+  // noLoop()/loop()/redraw() — p5 draws once after setup() even when not looping
+  let looping = true;
+  let pendingRedraws = 0;
+  let framesDrawn = 0;
+
+  const maxGraphicsBuffers = options.maxGraphicsBuffers ?? RUNTIME_LIMITS.MAX_GRAPHICS_BUFFERS;
+  const graphicsBuffers = new Set<PreviewP5Runtime>();
+
+  const releaseGraphics = (g: PreviewP5Runtime) => {
+    if (!graphicsBuffers.delete(g)) return;
+    destroyRuntime(g);
+    // Zero-size canvases release their backing store
+    g.canvas.width = 0;
+    g.canvas.height = 0;
+  };
+
+  const resolveImageSource = (img: any): ImageSourceInfo | null => {
+    if (!img) return null;
+    if (typeof img === 'object' && loadedImages.has(img)) {
+      const asset = loadedImages.get(img)!;
+      return { source: asset.source, width: asset.width, height: asset.height, density: 1 };
+    }
+    if (img.canvas instanceof HTMLCanvasElement && typeof img.width === 'number' && img.mode === 'preview') {
+      return { source: img.canvas, width: img.width, height: img.height, density: img.canvas.width / img.width };
+    }
+    if (typeof ImageData !== 'undefined' && img instanceof ImageData) {
+      // Regions from get() are in this canvas's buffer space
+      const tmp = document.createElement('canvas');
+      tmp.width = img.width;
+      tmp.height = img.height;
+      tmp.getContext('2d')?.putImageData(img, 0, 0);
+      const density = bufferScale();
+      return { source: tmp, width: img.width / density, height: img.height / density, density };
+    }
+    if (typeof img.width === 'number' && typeof img.height === 'number' && img.width > 0 && img.height > 0) {
+      return { source: img as CanvasImageSource, width: img.width, height: img.height, density: 1 };
+    }
+    return null;
+  };
+
+  // tint() multiplies the image color and keeps its own alpha. Registry images
+  // are cached per tint; any new tinted copy is one pass against the pixel budget.
+  const tintedSource = (img: object, info: ImageSourceInfo, [r, g, b]: ColorLevels): CanvasImageSource | null => {
+    const key = `${Math.round(r)},${Math.round(g)},${Math.round(b)}`;
+    const cacheable = loadedImages.has(img);
+    const cached = cacheable ? tintCache.get(img) : undefined;
+    if (cached && cached.key === key) return cached.canvas;
+
+    const w = Math.max(1, Math.round(info.width * info.density));
+    const h = Math.max(1, Math.round(info.height * info.density));
+    if (!spendPixelOps(w * h)) return null;
+
+    const out = cached?.canvas ?? document.createElement('canvas');
+    out.width = w;
+    out.height = h;
+    const octx = out.getContext('2d');
+    if (!octx) return null;
+    octx.drawImage(info.source, 0, 0, w, h);
+    octx.globalCompositeOperation = 'multiply';
+    octx.fillStyle = `rgb(${key})`;
+    octx.fillRect(0, 0, w, h);
+    octx.globalCompositeOperation = 'destination-in';
+    octx.drawImage(info.source, 0, 0, w, h);
+
+    if (cacheable) tintCache.set(img, { key, canvas: out });
+    return out;
+  };
+
+  // Random constructors draw from the runtime's current seeded stream (follows randomSeed())
+  const Vector = createVectorClass(() => rng());
+
   const normalizedVars = normalizeVars(vars);
   const frozenVars = Object.freeze([...normalizedVars]) as readonly number[];
 
+  // Map colorMode() channel values to straight RGBA levels (0-255)
+  const resolveColorLevels = (c1: number, c2: number, c3: number, a: number): PreviewColor => {
+    const { mode, maxR, maxG, maxB, maxA } = style.colorMode;
+    const alpha = (a / maxA) * 255;
+    if (mode === 'HSB') {
+      const [r, g, b] = hsbToRgb((c1 / maxR) * 360, c2 / maxG, c3 / maxB);
+      return new PreviewColor(r, g, b, alpha);
+    }
+    if (mode === 'HSL') {
+      const [r, g, b] = hslToRgb((c1 / maxR) * 360, c2 / maxG, c3 / maxB);
+      return new PreviewColor(r, g, b, alpha);
+    }
+    return new PreviewColor((c1 / maxR) * 255, (c2 / maxG) * 255, (c3 / maxB) * 255, alpha);
+  };
+
+  // Single-value grays scale against the brightness/lightness range in HSB/HSL, like p5
+  const resolveGray = (gray: number, a: number): PreviewColor => {
+    const { mode, maxR, maxB, maxA } = style.colorMode;
+    const level = (gray / (mode === 'RGB' ? maxR : maxB)) * 255;
+    return new PreviewColor(level, level, level, (a / maxA) * 255);
+  };
+
   const parseColor = (...args: any[]): string => {
     if (args.length === 0) return 'rgba(0, 0, 0, 1)';
-    const { mode, maxR, maxG, maxB, maxA } = colorMode;
+    const { maxA } = style.colorMode;
 
     if (args.length === 1) {
       const val = args[0];
       if (typeof val === 'string') return val;
-      if (mode === 'HSB') return `hsla(${val}, 100%, 50%, 1)`;
-      const gray = Math.round((val / maxR) * 255);
-      return `rgba(${gray}, ${gray}, ${gray}, 1)`;
+      if (val instanceof PreviewColor) return val.toString();
+      // [gray], [gray, a], [r, g, b] or [r, g, b, a] — e.g. fill(get(x, y))
+      if (Array.isArray(val)) return parseColor(...val);
+      return resolveGray(val, maxA).toString();
     }
 
     if (args.length === 2) {
       const [gray, alpha] = args;
-      const g = Math.round((gray / maxR) * 255);
-      return `rgba(${g}, ${g}, ${g}, ${alpha / maxA})`;
+      return resolveGray(gray, alpha).toString();
     }
 
     if (args.length === 3) {
-      const [r, g, b] = args;
-      if (mode === 'HSB') {
-        return `hsla(${(r / maxR) * 360}, ${(g / maxG) * 100}%, ${(b / maxB) * 100}%, 1)`;
-      }
-      return `rgba(${Math.round((r / maxR) * 255)}, ${Math.round((g / maxG) * 255)}, ${Math.round((b / maxB) * 255)}, 1)`;
+      const [c1, c2, c3] = args;
+      return resolveColorLevels(c1, c2, c3, maxA).toString();
     }
 
     if (args.length === 4) {
-      const [r, g, b, a] = args;
-      if (mode === 'HSB') {
-        return `hsla(${(r / maxR) * 360}, ${(g / maxG) * 100}%, ${(b / maxB) * 100}%, ${a / maxA})`;
-      }
-      return `rgba(${Math.round((r / maxR) * 255)}, ${Math.round((g / maxG) * 255)}, ${Math.round((b / maxB) * 255)}, ${a / maxA})`;
+      const [c1, c2, c3, a] = args;
+      return resolveColorLevels(c1, c2, c3, a).toString();
     }
 
     return 'rgba(0, 0, 0, 1)';
   };
 
+  // Channel accessors report in the active colorMode() ranges
+  const isHueMode = () => style.colorMode.mode !== 'RGB';
+  const readRgbChannel = (c: PreviewColor | string, index: number): number => {
+    const level = toPreviewColor(c, ctx).levels[index];
+    if (isHueMode()) return level;
+    const max = [style.colorMode.maxR, style.colorMode.maxG, style.colorMode.maxB][index];
+    return (level / 255) * max;
+  };
+
+  const isGradient = (value: unknown): value is CanvasGradient =>
+    typeof CanvasGradient !== 'undefined' && value instanceof CanvasGradient;
+
+  const resolvePaint = (...args: any[]): PaintStyle =>
+    args.length === 1 && isGradient(args[0]) ? args[0] : parseColor(...args);
+
+  const addGradientStops = (gradient: CanvasGradient, stops: GradientStops) => {
+    stops.forEach((stop, i) => {
+      const isPair = Array.isArray(stop) && stop.length === 2 && typeof stop[0] === 'number';
+      const [offset, c] = isPair
+        ? stop as [number, unknown]
+        : [stops.length > 1 ? i / (stops.length - 1) : 0, stop];
+      gradient.addColorStop(Math.max(0, Math.min(1, offset)), parseColor(c));
+    });
+    return gradient;
+  };
+
+  let warnedConicGradient = false;
+  let warnedBlendMode = false;
+
   const p: PreviewP5Runtime = {
     mode: 'preview' as const,
+    drawingContext: createDrawingContext(ctx, bufferScale),
     width,
     height,
     frameCount: 0,
@@ -173,169 +1096,515 @@ export function createPreviewRuntime(
     MITER: 'miter',
     BEVEL: 'bevel',
     CLOSE: 'close',
+    P2D: 'p2d',
+    WEBGL: 'webgl',
+    BACKSPACE: 8,
+    TAB: 9,
+    ENTER: 13,
+    RETURN: 13,
+    SHIFT: 16,
+    CONTROL: 17,
+    OPTION: 18,
+    ALT: 18,
+    ESCAPE: 27,
+    LEFT_ARROW: 37,
+    UP_ARROW: 38,
+    RIGHT_ARROW: 39,
+    DOWN_ARROW: 40,
+    DELETE: 46,
+    LEFT: 'left',
+    RIGHT: 'right',
+    TOP: 'top',
+    BOTTOM: 'bottom',
+    BASELINE: 'alphabetic',
+    NORMAL: 'normal',
+    ITALIC: 'italic',
+    BOLD: 'bold',
+    BOLDITALIC: 'bold italic',
+    WORD: 'word',
+    CHAR: 'char',
+    POINTS: 'points',
+    LINES: 'lines',
+    TRIANGLES: 'triangles',
+    TRIANGLE_FAN: 'triangle_fan',
+    TRIANGLE_STRIP: 'triangle_strip',
+    QUADS: 'quads',
+    QUAD_STRIP: 'quad_strip',
+    RGB: 'RGB',
+    HSB: 'HSB',
+    HSL: 'HSL',
+    BLUR: 'blur',
+    GRAY: 'gray',
+    INVERT: 'invert',
+    THRESHOLD: 'threshold',
+    POSTERIZE: 'posterize',
+    DILATE: 'dilate',
+    ERODE: 'erode',
+    OPAQUE: 'opaque',
+    BLEND: 'source-over',
+    ADD: 'lighter',
+    MULTIPLY: 'multiply',
+    SCREEN: 'screen',
 
     background: (...args: any[]) => {
-      ctx.fillStyle = parseColor(...args);
+      if (clipRecording) return;
+      // Like p5, background() paints normally even while erasing
+      ctx.globalCompositeOperation = style.blendMode;
+      ctx.fillStyle = resolvePaint(...args);
       ctx.fillRect(0, 0, width, height);
+      if (style.erasing) ctx.globalCompositeOperation = 'destination-out';
     },
 
     fill: (...args: any[]) => {
-      currentFill = parseColor(...args);
-      fillEnabled = true;
+      style.fill = resolvePaint(...args);
+      style.fillEnabled = true;
     },
 
-    noFill: () => { fillEnabled = false; },
+    noFill: () => { style.fillEnabled = false; },
 
     stroke: (...args: any[]) => {
-      currentStroke = parseColor(...args);
-      strokeEnabled = true;
+      style.stroke = resolvePaint(...args);
+      style.strokeEnabled = true;
     },
 
-    noStroke: () => { strokeEnabled = false; },
+    noStroke: () => { style.strokeEnabled = false; },
 
     strokeWeight: (w: number) => {
-      currentStrokeWeight = w;
+      style.strokeWeight = w;
       ctx.lineWidth = w;
     },
 
     strokeCap: (cap: string) => { ctx.lineCap = cap as CanvasLineCap; },
     strokeJoin: (join: string) => { ctx.lineJoin = join as CanvasLineJoin; },
 
+    // Gradients — geometry is semantic (resolved through the context scale at paint time)
+    linearGradient: (x0: number, y0: number, x1: number, y1: number, stops: GradientStops) =>
+      addGradientStops(ctx.createLinearGradient(x0, y0, x1, y1), stops),
+
+    // radialGradient(x, y, r, stops) or radialGradient(x0, y0, r0, x1, y1, r1, stops)
+    radialGradient: (...args: any[]) => {
+      const stops = args.pop() as GradientStops;
+      const [x0, y0, r0, x1, y1, r1] = args.length >= 6 ? args : [args[0], args[1], 0, args[0], args[1], args[2]];
+      return addGradientStops(ctx.createRadialGradient(x0, y0, r0, x1, y1, r1), stops);
+    },
+
+    conicGradient: (startAngle: number, x: number, y: number, stops: GradientStops): PaintStyle => {
+      if (typeof ctx.createConicGradient !== 'function') {
+        if (!warnedConicGradient) {
+          warnedConicGradient = true;
+          console.warn('[PreviewRuntime] conicGradient() is not supported by this browser — using the first stop color');
+        }
+        const first = stops[0];
+        return parseColor(Array.isArray(first) ? first[1] : first);
+      }
+      return addGradientStops(ctx.createConicGradient(startAngle, x, y), stops);
+    },
+
+    // Canvas shadows ignore the transform, so semantic lengths are scaled to buffer pixels
+    shadow: (blur: number, offsetX: number = 0, offsetY: number = 0, c: unknown = 'rgba(0, 0, 0, 0.5)') => {
+      const scale = bufferScale();
+      ctx.shadowBlur = blur * scale;
+      ctx.shadowOffsetX = offsetX * scale;
+      ctx.shadowOffsetY = offsetY * scale;
+      ctx.shadowColor = parseColor(c);
+    },
+
+    noShadow: () => {
+      ctx.shadowBlur = 0;
+      ctx.shadowOffsetX = 0;
+      ctx.shadowOffsetY = 0;
+      ctx.shadowColor = 'rgba(0, 0, 0, 0)';
+    },
+
+    // lineDash([dash, gap, ...], offset); lineDash() restores solid lines
+    lineDash: (segments: number[] = [], offset: number = 0) => {
+      ctx.setLineDash(segments);
+      ctx.lineDashOffset = offset;
+    },
+
     colorMode: (mode: string, max1?: number, max2?: number, max3?: number, maxA?: number) => {
-      colorMode.mode = mode;
-      if (max1 !== undefined) {
-        colorMode.maxR = max1;
-        colorMode.maxG = max2 ?? max1;
-        colorMode.maxB = max3 ?? max1;
-        colorMode.maxA = maxA ?? max1;
+      const normalized = String(mode).toUpperCase();
+      // Each mode starts from p5's default ranges
+      const defaults = normalized === 'RGB' ? [255, 255, 255, 255] : [360, 100, 100, 1];
+      style.colorMode.mode = normalized;
+      if (max1 === undefined) {
+        [style.colorMode.maxR, style.colorMode.maxG, style.colorMode.maxB, style.colorMode.maxA] = defaults;
+      } else if (max2 === undefined) {
+        style.colorMode.maxR = style.colorMode.maxG = style.colorMode.maxB = style.colorMode.maxA = max1;
+      } else {
+        style.colorMode.maxR = max1;
+        style.colorMode.maxG = max2;
+        style.colorMode.maxB = max3 ?? max2;
+        style.colorMode.maxA = maxA ?? defaults[3];
       }
     },
 
-    push: () => { ctx.save(); },
-    pop: () => { ctx.restore(); },
+    rectMode: (mode: string) => { style.rectMode = mode; },
+    ellipseMode: (mode: string) => { style.ellipseMode = mode; },
+    imageMode: (mode: string) => { style.imageMode = mode; },
+
+    tint: (...args: any[]) => { style.tint = toPreviewColor(parseColor(...args), ctx).levels; },
+    noTint: () => { style.tint = null; },
+
+    push: () => {
+      if (styleStack.length >= RUNTIME_LIMITS.MAX_PUSH_DEPTH) {
+        if (overflowDepth === 0) {
+          console.warn(`[PreviewRuntime] push() depth limit (${RUNTIME_LIMITS.MAX_PUSH_DEPTH}) reached — ignoring deeper push() calls`);
+        }
+        overflowDepth++;
+        return;
+      }
+      ctx.save();
+      styleStack.push(cloneStyle(style));
+    },
+    pop: () => {
+      if (overflowDepth > 0) { overflowDepth--; return; }
+      const saved = styleStack.pop();
+      if (!saved) { unmatchedPops++; return; }
+      ctx.restore();
+      style = saved;
+    },
     translate: (x: number, y: number) => { ctx.translate(x, y); },
     rotate: (angle: number) => { ctx.rotate(angle); },
     scale: (sx: number, sy?: number) => { ctx.scale(sx, sy ?? sx); },
+    shearX: (angle: number) => { ctx.transform(1, 0, Math.tan(angle), 1, 0, 0); },
+    shearY: (angle: number) => { ctx.transform(1, Math.tan(angle), 0, 1, 0, 0); },
 
-    ellipse: (x: number, y: number, w: number, h?: number) => {
-      const rw = w / 2, rh = (h ?? w) / 2;
+    // applyMatrix(a, b, c, d, e, f) or applyMatrix([a, b, c, d, e, f]), composed with the current matrix
+    applyMatrix: (...args: any[]) => {
+      const [a, b, c, d, e, f] = Array.isArray(args[0]) ? args[0] : args;
+      ctx.transform(a, b, c, d, e, f);
+    },
+
+    // The semantic identity is the preview scale — never the raw identity matrix,
+    // which would break the width/height → ctx.scale() invariant (see canvas-scaler)
+    resetMatrix: () => {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      reapplyContextScale(canvas, calculateScaledDimensions(width, height));
+    },
+
+    // Current matrix in semantic space (resetMatrix() reads as the identity)
+    getTransform: () => getSemanticTransform(ctx, bufferScale()),
+
+    // Clipping — lasts until pop() (or the end of the frame outside push())
+    beginClip: (options: { invert?: boolean } = {}) => {
+      if (clipRecording) return;
+      clipRecording = { invert: !!options.invert };
       ctx.beginPath();
-      ctx.ellipse(x, y, rw, rh, 0, 0, Math.PI * 2);
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+    },
+    endClip: () => {
+      if (!clipRecording) return;
+      const { invert } = clipRecording;
+      clipRecording = null;
+      if (invert) {
+        // Cover the whole buffer; even-odd turns the recorded shapes into holes
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.rect(0, 0, canvas.width, canvas.height);
+        ctx.restore();
+      }
+      if (styleStack.length === 0 && overflowDepth === 0) {
+        ctx.save();
+        frameClips++;
+      }
+      ctx.clip(invert ? 'evenodd' : 'nonzero');
+      ctx.beginPath();
+    },
+    clip: (callback: () => void, options: { invert?: boolean } = {}) => {
+      p.beginClip(options);
+      try {
+        callback();
+      } finally {
+        p.endClip();
+      }
+    },
+
+    ellipse: (x: number, y: number, w: number, h?: number) => {
+      const box = resolveShapeBox(style.ellipseMode, x, y, w, h ?? w);
+      const rw = Math.abs(box.w) / 2, rh = Math.abs(box.h) / 2;
+      const cx = box.x + box.w / 2, cy = box.y + box.h / 2;
+      beginShapePath(cx + rw, cy);
+      ctx.ellipse(cx, cy, rw, rh, 0, 0, Math.PI * 2);
+      paintPath();
     },
 
-    circle: (x: number, y: number, d: number) => { p.ellipse(x, y, d, d); },
+    circle: (x: number, y: number, d: number) => {
+      // circle() takes a diameter; CORNERS would read it as a second corner
+      if (style.ellipseMode === 'corners') p.ellipse(x, y, x + d, y + d);
+      else p.ellipse(x, y, d, d);
+    },
 
     rect: (x: number, y: number, w: number, h?: number, r?: number) => {
-      const ht = h ?? w;
-      ctx.beginPath();
-      if (r && r > 0) ctx.roundRect(x, y, w, ht, r);
-      else ctx.rect(x, y, w, ht);
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      const box = resolveShapeBox(style.rectMode, x, y, w, h ?? w);
+      beginShapePath();
+      if (r && r > 0) ctx.roundRect(box.x, box.y, box.w, box.h, r);
+      else ctx.rect(box.x, box.y, box.w, box.h);
+      paintPath();
     },
 
-    square: (x: number, y: number, s: number, r?: number) => { p.rect(x, y, s, s, r); },
+    square: (x: number, y: number, s: number, r?: number) => {
+      if (style.rectMode === 'corners') p.rect(x, y, x + s, y + s, r);
+      else p.rect(x, y, s, s, r);
+    },
 
     line: (x1: number, y1: number, x2: number, y2: number) => {
-      ctx.beginPath();
+      beginShapePath();
       ctx.moveTo(x1, y1);
       ctx.lineTo(x2, y2);
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      strokePath();
     },
 
     point: (x: number, y: number) => {
-      ctx.beginPath();
-      ctx.arc(x, y, currentStrokeWeight / 2, 0, Math.PI * 2);
-      ctx.fillStyle = currentStroke;
+      beginShapePath(x + style.strokeWeight / 2, y);
+      ctx.arc(x, y, style.strokeWeight / 2, 0, Math.PI * 2);
+      if (clipRecording) return;
+      ctx.fillStyle = strokePaint();
       ctx.fill();
     },
 
     triangle: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number) => {
-      ctx.beginPath();
+      beginShapePath();
       ctx.moveTo(x1, y1);
       ctx.lineTo(x2, y2);
       ctx.lineTo(x3, y3);
       ctx.closePath();
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      paintPath();
     },
 
     quad: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number) => {
-      ctx.beginPath();
+      beginShapePath();
       ctx.moveTo(x1, y1);
       ctx.lineTo(x2, y2);
       ctx.lineTo(x3, y3);
       ctx.lineTo(x4, y4);
       ctx.closePath();
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      paintPath();
     },
 
     arc: (x: number, y: number, w: number, h: number, start: number, stop: number, mode?: string) => {
-      ctx.beginPath();
-      ctx.ellipse(x, y, w / 2, h / 2, 0, start, stop);
+      const box = resolveShapeBox(style.ellipseMode, x, y, w, h);
+      const cx = box.x + box.w / 2, cy = box.y + box.h / 2;
+      const rw = Math.abs(box.w) / 2, rh = Math.abs(box.h) / 2;
+      beginShapePath(cx + rw * Math.cos(start), cy + rh * Math.sin(start));
+      ctx.ellipse(cx, cy, rw, rh, 0, start, stop);
       if (mode === 'close' || mode === 'chord') ctx.closePath();
-      else if (mode === 'pie') { ctx.lineTo(x, y); ctx.closePath(); }
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      else if (mode === 'pie') { ctx.lineTo(cx, cy); ctx.closePath(); }
+      paintPath();
     },
 
-    beginShape: () => { ctx.beginPath(); shapeStarted = true; },
-
-    vertex: (x: number, y: number) => {
-      if (!shapeStarted) { ctx.beginPath(); ctx.moveTo(x, y); shapeStarted = true; }
-      else ctx.lineTo(x, y);
+    beginShape: (kind?: string) => {
+      shapeKind = kind ?? null;
+      shapePaths = [[]];
+      inContour = false;
+      curveVertices = [];
     },
 
-    curveVertex: (x: number, y: number) => { ctx.lineTo(x, y); },
+    vertex: (x: number, y: number) => { activePath().push({ op: 'vertex', x, y }); },
+
+    // Catmull-Rom: the first and last curveVertex() are control points only,
+    // so each new vertex from the 4th on draws the segment between its two predecessors.
+    curveVertex: (x: number, y: number) => {
+      curveVertices.push({ x, y });
+      const n = curveVertices.length;
+      if (n < 4) return;
+      const [p0, p1, p2, p3] = curveVertices.slice(n - 4);
+      if (n === 4) activePath().push({ op: 'vertex', x: p1.x, y: p1.y });
+      const [c1x, c1y, c2x, c2y] = curveSegmentControls(p0, p1, p2, p3, style.curveTightness);
+      activePath().push({ op: 'bezier', c1x, c1y, c2x, c2y, x: p2.x, y: p2.y });
+    },
+    curveTightness: (amount: number) => { style.curveTightness = amount; },
+    curvePoint: (a: number, b: number, c: number, d: number, t: number) => curvePointAt(a, b, c, d, t, style.curveTightness),
+    curveTangent: (a: number, b: number, c: number, d: number, t: number) => curveTangentAt(a, b, c, d, t, style.curveTightness),
     bezierVertex: (x2: number, y2: number, x3: number, y3: number, x4: number, y4: number) => {
-      ctx.bezierCurveTo(x2, y2, x3, y3, x4, y4);
+      activePath().push({ op: 'bezier', c1x: x2, c1y: y2, c2x: x3, c2y: y3, x: x4, y: y4 });
     },
     quadraticVertex: (cx: number, cy: number, x3: number, y3: number) => {
-      ctx.quadraticCurveTo(cx, cy, x3, y3);
+      activePath().push({ op: 'quadratic', cx, cy, x: x3, y: y3 });
+    },
+
+    // Contours are holes cut from the outer shape with the even-odd fill rule
+    beginContour: () => {
+      if (inContour) return;
+      inContour = true;
+      curveVertices = [];
+      shapePaths.push([]);
+    },
+    endContour: () => {
+      inContour = false;
+      curveVertices = [];
     },
 
     endShape: (close?: string) => {
-      if (close === 'close') ctx.closePath();
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
-      shapeStarted = false;
+      const paths = shapePaths.filter(path => path.length > 0);
+      const vertices = (paths[0] ?? []).filter((c): c is { op: 'vertex'; x: number; y: number } => c.op === 'vertex');
+      const polygons = shapeKind ? polygonsForKind(shapeKind, vertices) : null;
+
+      if (shapeKind === 'points') {
+        for (const v of vertices) p.point(v.x, v.y);
+      } else if (shapeKind === 'lines') {
+        for (let i = 0; i + 1 < vertices.length; i += 2) {
+          p.line(vertices[i].x, vertices[i].y, vertices[i + 1].x, vertices[i + 1].y);
+        }
+      } else if (polygons) {
+        for (const poly of polygons) {
+          beginShapePath();
+          poly.forEach((v, i) => (i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y)));
+          ctx.closePath();
+          paintPath();
+        }
+      } else if (paths.length > 0) {
+        beginShapePath();
+        paths.forEach((path, i) => {
+          tracePath(ctx, path);
+          if (i > 0 || close === 'close') ctx.closePath();
+        });
+        paintPath(paths.length > 1 ? 'evenodd' : 'nonzero');
+      }
+
+      shapeKind = null;
+      shapePaths = [[]];
+      inContour = false;
+      curveVertices = [];
     },
 
     bezier: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number) => {
-      ctx.beginPath();
+      beginShapePath();
       ctx.moveTo(x1, y1);
       ctx.bezierCurveTo(x2, y2, x3, y3, x4, y4);
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      strokePath();
     },
 
     curve: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number) => {
-      ctx.beginPath();
+      beginShapePath();
       ctx.moveTo(x2, y2);
-      ctx.bezierCurveTo(x2, y2, x3, y3, x3, y3);
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      curveSegmentTo(ctx, { x: x1, y: y1 }, { x: x2, y: y2 }, { x: x3, y: y3 }, { x: x4, y: y4 }, style.curveTightness);
+      strokePath();
     },
 
-    text: (str: string, x: number, y: number) => {
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fillText(String(str), x, y); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.strokeText(String(str), x, y); }
+    text: (str: any, x: number, y: number, w?: number, h?: number) => {
+      const content = String(str);
+      applyFont();
+      ctx.textAlign = style.textAlignH as CanvasTextAlign;
+
+      if (w === undefined) {
+        // Multi-line text stacks by textLeading; BOTTOM/CENTER shift the block up like p5
+        ctx.textBaseline = style.textAlignV as CanvasTextBaseline;
+        const lines = content.split('\n');
+        const span = (lines.length - 1) * style.textLeading;
+        const offset = style.textAlignV === 'bottom' ? span : style.textAlignV === 'middle' ? span / 2 : 0;
+        lines.forEach((line, i) => drawTextLine(line, x, y - offset + i * style.textLeading));
+        return;
+      }
+
+      // Box form: wrap to the box width, align inside it, drop lines that overflow its height
+      const box = resolveShapeBox(style.rectMode, x, y, w, h ?? 0);
+      if (h === undefined) box.h = Infinity;
+      const lines = wrapTextLines(content, box.w, style.textWrap, line => ctx.measureText(line).width);
+      const { ascent, descent } = fontMetrics();
+      const blockHeight = (lines.length - 1) * style.textLeading + ascent + descent;
+      let top = box.y;
+      if (Number.isFinite(box.h)) {
+        if (style.textAlignV === 'middle') top = box.y + (box.h - blockHeight) / 2;
+        else if (style.textAlignV === 'bottom') top = box.y + box.h - blockHeight;
+      }
+      const lineX = style.textAlignH === 'center' ? box.x + box.w / 2 : style.textAlignH === 'right' ? box.x + box.w : box.x;
+      ctx.textBaseline = 'alphabetic';
+      lines.forEach((line, i) => {
+        const baseline = top + ascent + i * style.textLeading;
+        if (Number.isFinite(box.h) && baseline + descent > box.y + box.h + 0.5) return;
+        drawTextLine(line, lineX, baseline);
+      });
     },
 
-    textSize: (size: number) => { ctx.font = `${size}px sans-serif`; },
-    textAlign: (h: string, v?: string) => {
-      ctx.textAlign = h as CanvasTextAlign;
-      if (v) ctx.textBaseline = v as CanvasTextBaseline;
+    textSize: (size?: number) => {
+      if (size === undefined) return style.textSize;
+      style.textSize = size;
+      style.textLeading = size * 1.25;
     },
+    textFont: (font?: any, size?: number) => {
+      if (font === undefined) return style.textFont;
+      style.textFont = typeof font === 'string' ? font : String(font.family ?? font);
+      if (size !== undefined) p.textSize(size);
+    },
+    textStyle: (s?: string) => {
+      if (s === undefined) return style.textStyle;
+      style.textStyle = s;
+    },
+    textLeading: (leading?: number) => {
+      if (leading === undefined) return style.textLeading;
+      style.textLeading = leading;
+    },
+    textWrap: (mode?: string) => {
+      if (mode === undefined) return style.textWrap;
+      style.textWrap = mode;
+    },
+    textAlign: (h?: string, v?: string) => {
+      if (h === undefined) return { horizontal: style.textAlignH, vertical: style.textAlignV };
+      style.textAlignH = h;
+      // CENTER means 'middle' on the vertical axis
+      if (v) style.textAlignV = v === 'center' ? 'middle' : v;
+    },
+    textWidth: (str: any) => measureText(String(str)),
+    textAscent: () => fontMetrics().ascent,
+    textDescent: () => fontMetrics().descent,
 
-    random: (min?: number, max?: number) => {
+    // random(), random(max), random(min, max) or random(array)
+    random: (min?: number | readonly unknown[], max?: number) => {
+      if (Array.isArray(min)) return min[Math.floor(rng() * min.length)];
       if (min === undefined) return rng();
-      if (max === undefined) return rng() * min;
-      return min + rng() * (max - min);
+      if (max === undefined) return rng() * (min as number);
+      return (min as number) + rng() * (max - (min as number));
     },
 
-    randomSeed: (s: number) => { rng = createSeededRNG(s); },
+    // Integer in [min, max), or [0, min) with one argument — same bounds as random()
+    randomInt: (min: number, max?: number) => {
+      const lo = max === undefined ? 0 : Math.ceil(min);
+      const hi = max === undefined ? Math.floor(min) : Math.floor(max);
+      return lo + Math.floor(rng() * (hi - lo));
+    },
+
+    // Box-Muller; the second value of each pair is kept for the next call, like p5
+    randomGaussian: (mean: number = 0, sd: number = 1) => {
+      let z: number;
+      if (gaussianSpare !== null) {
+        z = gaussianSpare;
+        gaussianSpare = null;
+      } else {
+        const u = 1 - rng();
+        const v = rng();
+        const r = Math.sqrt(-2 * Math.log(u));
+        z = r * Math.cos(2 * Math.PI * v);
+        gaussianSpare = r * Math.sin(2 * Math.PI * v);
+      }
+      return mean + z * sd;
+    },
+
+    // Pick an item with probability proportional to its weight
+    randomWeighted: <T>(items: readonly T[], weights: readonly number[]): T | undefined => {
+      const total = items.reduce((sum, _, i) => sum + Math.max(0, weights[i] ?? 0), 0);
+      if (total <= 0) return undefined;
+      let roll = rng() * total;
+      for (let i = 0; i < items.length; i++) {
+        roll -= Math.max(0, weights[i] ?? 0);
+        if (roll < 0) return items[i];
+      }
+      return items[items.length - 1];
+    },
+
+    // Fisher-Yates; returns a shuffled copy unless modify is true
+    shuffle: <T>(array: T[], modify: boolean = false): T[] => {
+      const out = modify ? array : [...array];
+      for (let i = out.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [out[i], out[j]] = [out[j], out[i]];
+      }
+      return out;
+    },
+
+    randomSeed: (s: number) => {
+      rng = createSeededRNG(s);
+      gaussianSpare = null;
+    },
 
     noise: (x: number, y?: number, z?: number) => {
       let total = 0, freq = 1, amp = 1, maxVal = 0;
@@ -348,7 +1617,29 @@ export function createPreviewRuntime(
       return total / maxVal;
     },
 
-    noiseSeed: (s: number) => { noiseFunc = createSimpleNoise(s); },
+    noiseSeed: (s: number) => {
+      noiseFunc = createSimpleNoise(s);
+      simplex = createSimplexNoise(createSeededRNG(s));
+      worley = createWorleyNoise(createSeededRNG(s));
+    },
+
+    // Simplex noise in 1-4 dimensions (by argument count), mapped to 0..1 like noise()
+    simplexNoise: (x: number, y?: number, z?: number, w?: number) => {
+      const n = w !== undefined ? simplex.noise4D(x, y ?? 0, z ?? 0, w)
+        : z !== undefined ? simplex.noise3D(x, y ?? 0, z)
+        : simplex.noise2D(x, y ?? 0);
+      return (n + 1) / 2;
+    },
+
+    // Distance to the nearest cell feature point (0..1); 2D, or 3D with z
+    worleyNoise: (x: number, y: number, z?: number) => worley(x, y, z),
+
+    // 4D simplex sampled on a circle of the given radius. t is wrapped to 0..1 first,
+    // so whole-number t values share one angle and t = 0 and t = 1 match exactly
+    loopNoise: (x: number, y: number, t: number, radius: number = 1) => {
+      const angle = (t - Math.floor(t)) * Math.PI * 2;
+      return (simplex.noise4D(x, y, radius * Math.cos(angle), radius * Math.sin(angle)) + 1) / 2;
+    },
     noiseDetail: (octaves: number, falloff?: number) => {
       noiseOctaves = octaves;
       if (falloff !== undefined) noiseFalloff = falloff;
@@ -364,32 +1655,145 @@ export function createPreviewRuntime(
     map: (v: number, s1: number, e1: number, s2: number, e2: number) => s2 + (e2 - s2) * ((v - s1) / (e1 - s1)),
     constrain: (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v)),
     lerp: (a: number, b: number, t: number) => a + (b - a) * t,
+
+    // Interpolate angles (radians) the short way around
+    lerpAngle: (a: number, b: number, t: number) => {
+      const TWO_PI = Math.PI * 2;
+      const delta = ((((b - a) % TWO_PI) + TWO_PI * 1.5) % TWO_PI) - Math.PI;
+      return a + delta * t;
+    },
+    smoothstep: (edge0: number, edge1: number, x: number) => {
+      if (edge0 === edge1) return x < edge0 ? 0 : 1;
+      const k = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+      return k * k * (3 - 2 * k);
+    },
+    // Triangle wave 0 → length → 0, period 2 * length
+    pingpong: (t: number, length: number = 1) => {
+      const period = length * 2;
+      const m = ((t % period) + period) % period;
+      return length - Math.abs(m - length);
+    },
+
+    bezierPoint: (a: number, b: number, c: number, d: number, t: number) => bezierPointAt(a, b, c, d, t),
+    bezierTangent: (a: number, b: number, c: number, d: number, t: number) => bezierTangentAt(a, b, c, d, t),
+
+    // Arc length — constant-speed motion along curves
+    arcLengthPath: (pointAt: (t: number) => { x: number; y: number }, samples?: number) =>
+      createArcLengthPath(pointAt, samples),
+    bezierLength: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number) =>
+      createArcLengthPath(t => ({ x: bezierPointAt(x1, x2, x3, x4, t), y: bezierPointAt(y1, y2, y3, y4, t) })).length,
+    bezierPointAtLength: (
+      x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number, u: number
+    ) => createArcLengthPath(t => ({ x: bezierPointAt(x1, x2, x3, x4, t), y: bezierPointAt(y1, y2, y3, y4, t) })).pointAt(u),
+    curveLength: (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number) => {
+      const k = style.curveTightness;
+      return createArcLengthPath(t => ({
+        x: curvePointAt(x1, x2, x3, x4, t, k),
+        y: curvePointAt(y1, y2, y3, y4, t, k),
+      })).length;
+    },
+    curvePointAtLength: (
+      x1: number, y1: number, x2: number, y2: number, x3: number, y3: number, x4: number, y4: number, u: number
+    ) => {
+      const k = style.curveTightness;
+      return createArcLengthPath(t => ({
+        x: curvePointAt(x1, x2, x3, x4, t, k),
+        y: curvePointAt(y1, y2, y3, y4, t, k),
+      })).pointAt(u);
+    },
     dist: (x1: number, y1: number, x2: number, y2: number) => Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2),
     mag: (x: number, y: number) => Math.sqrt(x * x + y * y),
     norm: (v: number, s: number, e: number) => (v - s) / (e - s),
     radians: (d: number) => d * (Math.PI / 180),
     degrees: (r: number) => r * (180 / Math.PI),
 
-    color: (...args: any[]) => parseColor(...args),
-    lerpColor: (c1: string, c2: string, amt: number) => c1,
-    red: (c: string) => { const m = c.match(/rgba?\((\d+)/); return m ? parseInt(m[1], 10) : 0; },
-    green: (c: string) => { const m = c.match(/rgba?\(\d+,\s*(\d+)/); return m ? parseInt(m[1], 10) : 0; },
-    blue: (c: string) => { const m = c.match(/rgba?\(\d+,\s*\d+,\s*(\d+)/); return m ? parseInt(m[1], 10) : 0; },
-    alpha: (c: string) => { const m = c.match(/rgba\(\d+,\s*\d+,\s*\d+,\s*([\d.]+)\)/); return m ? Math.round(parseFloat(m[1]) * 255) : 255; },
-    hue: () => 0, saturation: () => 0, brightness: () => 0,
+    color: (...args: any[]) => args[0] instanceof PreviewColor ? args[0] : toPreviewColor(parseColor(...args), ctx),
+    lerpColor: (c1: PreviewColor | string, c2: PreviewColor | string, amt: number) => {
+      const a = toPreviewColor(c1, ctx).levels;
+      const b = toPreviewColor(c2, ctx).levels;
+      const t = Math.max(0, Math.min(1, amt));
+      const mix = (x: number, y: number) => x + (y - x) * t;
+      const alpha = mix(a[3], b[3]);
+      if (style.colorMode.mode === 'HSB') {
+        const h1 = rgbToHsb(a[0], a[1], a[2]);
+        const h2 = rgbToHsb(b[0], b[1], b[2]);
+        const [r, g, bl] = hsbToRgb(mix(h1[0], h2[0]), mix(h1[1], h2[1]), mix(h1[2], h2[2]));
+        return new PreviewColor(r, g, bl, alpha);
+      }
+      if (style.colorMode.mode === 'HSL') {
+        const h1 = rgbToHsl(a[0], a[1], a[2]);
+        const h2 = rgbToHsl(b[0], b[1], b[2]);
+        const [r, g, bl] = hslToRgb(mix(h1[0], h2[0]), mix(h1[1], h2[1]), mix(h1[2], h2[2]));
+        return new PreviewColor(r, g, bl, alpha);
+      }
+      return new PreviewColor(mix(a[0], b[0]), mix(a[1], b[1]), mix(a[2], b[2]), alpha);
+    },
+    red: (c: PreviewColor | string) => readRgbChannel(c, 0),
+    green: (c: PreviewColor | string) => readRgbChannel(c, 1),
+    blue: (c: PreviewColor | string) => readRgbChannel(c, 2),
+    alpha: (c: PreviewColor | string) => (toPreviewColor(c, ctx).levels[3] / 255) * style.colorMode.maxA,
+    hue: (c: PreviewColor | string) => {
+      const [r, g, b] = toPreviewColor(c, ctx).levels;
+      const h = style.colorMode.mode === 'HSB' ? rgbToHsb(r, g, b)[0] : rgbToHsl(r, g, b)[0];
+      return isHueMode() ? (h / 360) * style.colorMode.maxR : h;
+    },
+    saturation: (c: PreviewColor | string) => {
+      const [r, g, b] = toPreviewColor(c, ctx).levels;
+      const s = style.colorMode.mode === 'HSB' ? rgbToHsb(r, g, b)[1] : rgbToHsl(r, g, b)[1];
+      return s * (isHueMode() ? style.colorMode.maxG : 100);
+    },
+    brightness: (c: PreviewColor | string) => {
+      const [r, g, b] = toPreviewColor(c, ctx).levels;
+      return rgbToHsb(r, g, b)[2] * (isHueMode() ? style.colorMode.maxB : 100);
+    },
+    lightness: (c: PreviewColor | string) => {
+      const [r, g, b] = toPreviewColor(c, ctx).levels;
+      return rgbToHsl(r, g, b)[2] * (isHueMode() ? style.colorMode.maxB : 100);
+    },
 
-    blendMode: (mode: string) => { ctx.globalCompositeOperation = mode as GlobalCompositeOperation; },
+    // blendMode() while erasing takes effect at noErase(); unknown modes are ignored
+    // so noErase() and pop() always restore an operation the canvas accepts
+    blendMode: (mode: string) => {
+      const op = toCompositeOperation(mode);
+      if (!op) {
+        if (!warnedBlendMode) {
+          warnedBlendMode = true;
+          console.warn(`[PreviewRuntime] blendMode(): unknown mode "${mode}" — ignoring it`);
+        }
+        return;
+      }
+      style.blendMode = op;
+      if (!style.erasing) ctx.globalCompositeOperation = style.blendMode;
+    },
+    erase: (fillStrength: number = 255, strokeStrength: number = 255) => {
+      const clamp = (v: number) => Math.max(0, Math.min(255, v));
+      style.erasing = { fill: clamp(fillStrength), stroke: clamp(strokeStrength) };
+      ctx.globalCompositeOperation = 'destination-out';
+    },
+    noErase: () => {
+      if (!style.erasing) return;
+      style.erasing = null;
+      ctx.globalCompositeOperation = style.blendMode;
+    },
     clear: () => { ctx.clearRect(0, 0, width, height); },
 
     print: console.log,
     println: console.log,
 
-    loop: () => {},
-    noLoop: () => {},
+    loop: () => { looping = true; pendingRedraws = 0; },
+    noLoop: () => { looping = false; },
+    isLooping: () => looping,
+    redraw: (n: number = 1) => {
+      const frames = Math.floor(n);
+      if (Number.isFinite(frames) && frames > 0) pendingRedraws += frames;
+    },
 
     fract: (x: number) => x - Math.floor(x),
     sign: Math.sign,
 
+    createVector: (x?: number, y?: number, z?: number) => new Vector(x, y, z),
+    p5: Object.freeze({ Vector }),
+
     vec: (x: number, y: number) => ({ x, y }),
     vecAdd: (a: { x: number; y: number }, b: { x: number; y: number }) => ({ x: a.x + b.x, y: a.y + b.y }),
     vecSub: (a: { x: number; y: number }, b: { x: number; y: number }) => ({ x: a.x - b.x, y: a.y - b.y }),
@@ -399,7 +1803,7 @@ export function createPreviewRuntime(
     vecDist: (a: { x: number; y: number }, b: { x: number; y: number }) => Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2),
 
     polygon: (x: number, y: number, r: number, n: number) => {
-      ctx.beginPath();
+      beginShapePath();
       for (let i = 0; i < n; i++) {
         const angle = (Math.PI * 2 * i) / n - Math.PI / 2;
         const px = x + r * Math.cos(angle);
@@ -408,12 +1812,11 @@ export function createPreviewRuntime(
         else ctx.lineTo(px, py);
       }
       ctx.closePath();
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      paintPath();
     },
 
     star: (x: number, y: number, r1: number, r2: number, n: number) => {
-      ctx.beginPath();
+      beginShapePath();
       for (let i = 0; i < n * 2; i++) {
         const angle = (Math.PI * i) / n - Math.PI / 2;
         const r = i % 2 === 0 ? r2 : r1;
@@ -423,8 +1826,7 @@ export function createPreviewRuntime(
         else ctx.lineTo(px, py);
       }
       ctx.closePath();
-      if (fillEnabled) { ctx.fillStyle = currentFill; ctx.fill(); }
-      if (strokeEnabled) { ctx.strokeStyle = currentStroke; ctx.lineWidth = currentStrokeWeight; ctx.stroke(); }
+      paintPath();
     },
 
     easeIn: (t: number) => t * t,
@@ -455,40 +1857,300 @@ export function createPreviewRuntime(
       return { x: (n1 - n2) / (2 * epsilon), y: -(n3 - n4) / (2 * epsilon) };
     },
 
+    // Only the 2D renderer exists in preview; WEBGL sketches draw in 2D
+    createCanvas: (w: number, h: number, renderer?: string) => {
+      if (renderer === 'webgl') {
+        console.warn('[PreviewRuntime] createCanvas(): WEBGL is not available in preview — drawing in 2D');
+      }
+      resizeSemanticCanvas('createCanvas', w, h);
+    },
+
+    // Like p5, a paused sketch redraws once after resizing unless noRedraw is set
+    resizeCanvas: (w: number, h: number, noRedraw: boolean = false) => {
+      if (resizeSemanticCanvas('resizeCanvas', w, h) && !noRedraw && !looping) pendingRedraws++;
+    },
+
     createGraphics: (w: number, h: number) => {
+      if (graphicsBuffers.size >= maxGraphicsBuffers) {
+        throw new Error(`[PreviewRuntime] createGraphics() limit reached (${maxGraphicsBuffers} buffers) — reuse buffers or call remove()`);
+      }
+      // Buffers keep semantic w/h and scale their backing canvas like the main canvas
       const offCanvas = document.createElement('canvas');
-      offCanvas.width = Math.min(w, 900);
-      offCanvas.height = Math.min(h, 900);
-      return createPreviewRuntime(offCanvas, offCanvas.width, offCanvas.height, seed, vars);
+      const dims = calculateScaledDimensions(w, h);
+      applyScaledDimensions(offCanvas, dims);
+      const g = createPreviewRuntime(offCanvas, w, h, seed, vars, {
+        maxPixelOpsPerFrame: maxPixelOps,
+        maxGraphicsBuffers: 0,
+        assets: options.assets,
+      });
+      reapplyContextScale(offCanvas, dims);
+      g.canvas = offCanvas;
+      g.remove = () => releaseGraphics(g);
+      graphicsBuffers.add(g);
+      return g;
     },
 
-    image: (img: any, x: number, y: number, w?: number, h?: number) => {
+    image: (
+      img: any,
+      x: number, y: number, w?: number, h?: number,
+      sx?: number, sy?: number, sw?: number, sh?: number
+    ) => {
+      const info = resolveImageSource(img);
+      if (!info || clipRecording) return;
+      const tint = style.tint;
+      let source = info.source;
+      if (tint && (tint[0] < 255 || tint[1] < 255 || tint[2] < 255)) {
+        const tinted = tintedSource(img, info, tint);
+        if (!tinted) return;
+        source = tinted;
+      }
+      const previousAlpha = ctx.globalAlpha;
+      if (tint) ctx.globalAlpha = previousAlpha * (tint[3] / 255);
       try {
-        if (img && img.width && img.height) {
-          const srcCanvas = document.createElement('canvas');
-          srcCanvas.width = img.width;
-          srcCanvas.height = img.height;
-          const srcCtx = srcCanvas.getContext('2d');
-          if (srcCtx && img.background) {
-            srcCtx.drawImage(srcCanvas, 0, 0);
-          }
-          ctx.drawImage(srcCanvas, x, y, w ?? img.width, h ?? img.height);
+        const box = resolveShapeBox(style.imageMode, x, y, w ?? info.width, h ?? info.height);
+        if (sx !== undefined && sy !== undefined) {
+          const d = info.density;
+          ctx.drawImage(
+            source,
+            sx * d, sy * d, (sw ?? info.width - sx) * d, (sh ?? info.height - sy) * d,
+            box.x, box.y, box.w, box.h
+          );
+        } else {
+          ctx.drawImage(source, box.x, box.y, box.w, box.h);
         }
       } catch {
         // Silently fail for preview
+      } finally {
+        ctx.globalAlpha = previousAlpha;
+      }
+    },
+
+    // loadImage(name) resolves against the host's asset registry only — never the network.
+    // An image still decoding comes back 0×0 and fills in (then calls onLoad) once ready.
+    loadImage: (name: string, onLoad?: (img: LoadedImage) => void, onError?: (error: Error) => void) => {
+      const handle: LoadedImage = { name: String(name), width: 0, height: 0 };
+
+      const settle = (): LoadedImage => {
+        const result = options.assets
+          ? options.assets.lookup(handle.name)
+          : { status: 'missing' as const, reason: 'no assets are registered — images come from the host, not the network' };
+        if (result.status === 'ready') {
+          loadedImages.set(handle, result.asset);
+          handle.width = result.asset.width;
+          handle.height = result.asset.height;
+          onLoad?.(handle);
+          return handle;
+        }
+        const reason = result.status === 'pending' ? 'asset is still decoding' : result.reason;
+        const error = new Error(`[PreviewRuntime] loadImage("${handle.name}"): ${reason}`);
+        if (!onError) throw error;
+        onError(error);
+        return handle;
+      };
+
+      if (options.assets?.lookup(handle.name).status === 'pending') {
+        options.assets.ready.then(() => {
+          try {
+            settle();
+          } catch (error) {
+            console.warn(error instanceof Error ? error.message : error);
+          }
+        });
+        return handle;
+      }
+      return settle();
+    },
+
+    // pixels[] is in buffer space: rows are canvas.width (round(width × scale)) pixels wide,
+    // so on a scaled preview canvas p5 index formulas miss — get()/set() map coordinates instead
+    loadPixels: () => {
+      if (!spendPixelOps(canvas.width * canvas.height)) return;
+      pixelImage = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      p.pixels = pixelImage.data;
+    },
+
+    updatePixels: () => {
+      if (!pixelImage) return;
+      if (!spendPixelOps(pixelImage.width * pixelImage.height)) return;
+      ctx.putImageData(pixelImage, 0, 0);
+    },
+
+    // The buffer scale is fractional and would break p5 index formulas; report 1 like Code Mode
+    pixelDensity: () => 1,
+
+    // filter(kind, param?) — one full-buffer pass against the pixel budget.
+    // BLUR/GRAY/INVERT use ctx.filter where supported; everything else runs on the pixels.
+    filter: (kind: string, param?: number) => {
+      const filterKind = String(kind).toLowerCase() as FilterKind;
+      if (!FILTER_KINDS.includes(filterKind)) {
+        console.warn(`[PreviewRuntime] filter(): unknown filter "${kind}"`);
+        return;
+      }
+      if (!spendPixelOps(canvas.width * canvas.height)) return;
+
+      // BLUR radius is semantic; default 4 like p5
+      const blurPx = (param ?? 4) * bufferScale();
+      const css = typeof ctx.filter === 'string' ? cssFilterFor(filterKind, blurPx) : null;
+
+      if (css) {
+        const copy = document.createElement('canvas');
+        copy.width = canvas.width;
+        copy.height = canvas.height;
+        copy.getContext('2d')?.drawImage(canvas, 0, 0);
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'copy';
+        ctx.shadowColor = 'rgba(0, 0, 0, 0)';
+        ctx.filter = css;
+        ctx.drawImage(copy, 0, 0);
+        ctx.restore();
+        copy.width = 0;
+        copy.height = 0;
+        return;
+      }
+
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      applyPixelFilter(image, filterKind, filterKind === 'blur' ? blurPx : param);
+      ctx.putImageData(image, 0, 0);
+    },
+
+    get: (x?: number, y?: number, w?: number, h?: number) => {
+      if (x === undefined || y === undefined) {
+        if (!spendPixelOps(canvas.width * canvas.height)) return null;
+        return ctx.getImageData(0, 0, canvas.width, canvas.height);
+      }
+      if (w === undefined) {
+        const bx = Math.floor(x * bufferScale());
+        const by = Math.floor(y * bufferScale());
+        if (bx < 0 || by < 0 || bx >= canvas.width || by >= canvas.height) return [0, 0, 0, 0];
+        if (!spendPixelOps(1)) return [0, 0, 0, 0];
+        return Array.from(ctx.getImageData(bx, by, 1, 1).data);
+      }
+      const rect = toBufferRect(x, y, w, h ?? w);
+      if (!spendPixelOps(rect.w * rect.h)) return null;
+      return ctx.getImageData(rect.x, rect.y, rect.w, rect.h);
+    },
+
+    // Writes into pixels[]; call updatePixels() to show the result, as in p5
+    set: (x: number, y: number, c: any) => {
+      if (!pixelImage) p.loadPixels();
+      if (!pixelImage) return;
+      const levels = Array.isArray(c)
+        ? [c[0] ?? 0, c[1] ?? c[0] ?? 0, c[2] ?? c[0] ?? 0, c[3] ?? 255]
+        : toPreviewColor(typeof c === 'number' ? parseColor(c) : c, ctx).levels;
+      const rect = toBufferRect(x, y, 1, 1);
+      if (!spendPixelOps(rect.w * rect.h)) return;
+      const data = pixelImage.data;
+      for (let py = rect.y; py < Math.min(rect.y + rect.h, pixelImage.height); py++) {
+        for (let px = rect.x; px < Math.min(rect.x + rect.w, pixelImage.width); px++) {
+          if (px < 0 || py < 0) continue;
+          const i = (py * pixelImage.width + px) * 4;
+          data[i] = levels[0];
+          data[i + 1] = levels[1];
+          data[i + 2] = levels[2];
+          data[i + 3] = levels[3];
+        }
       }
     },
 
-    loadPixels: () => {},
-    updatePixels: () => {},
-    get: () => [0, 0, 0, 255],
-    set: () => {},
     pixels: [],
+
+    // Input state — written by the input binding when the engine is interactive
+    mouseX: 0,
+    mouseY: 0,
+    pmouseX: 0,
+    pmouseY: 0,
+    mouseIsPressed: false,
+    mouseButton: 'left',
+    key: '',
+    keyCode: 0,
+    keyIsPressed: false,
+    keyIsDown: (code: number) => pressedKeys.has(code),
+
     totalFrames: 120,
     t: 0,
     time: 0,
     tGlobal: 0,
+
+    // Timing — advanced by the engines through beginRuntimeFrame()
+    deltaTime: 0,
+    millis: () => timing === 'frame-locked' ? lockedClockMs : performance.now() - clockStartMs,
+    frameRate: (fps?: number) => {
+      if (fps === undefined) return measuredFrameRate;
+      if (Number.isFinite(fps) && fps > 0) targetFrameRate = fps;
+    },
+    getTargetFrameRate: () => targetFrameRate ?? DEFAULT_FRAME_RATE,
   };
 
+  runtimeInternals.set(p, {
+    frameDue: () => looping || pendingRedraws > 0 || framesDrawn === 0,
+    beginFrame: () => {
+      if (!looping && framesDrawn > 0 && pendingRedraws > 0) pendingRedraws--;
+      framesDrawn++;
+      const now = performance.now();
+      if (timing === 'frame-locked') {
+        p.deltaTime = 1000 / (targetFrameRate ?? DEFAULT_FRAME_RATE);
+        lockedClockMs += p.deltaTime;
+      } else {
+        p.deltaTime = now - lastFrameMs;
+      }
+      lastFrameMs = now;
+      measuredFrameRate = p.deltaTime > 0 ? 1000 / p.deltaTime : 0;
+    },
+    endFrame: () => {
+      const leftover = styleStack.length + overflowDepth;
+      if ((leftover > 0 || unmatchedPops > 0) && !warnedUnbalanced) {
+        warnedUnbalanced = true;
+        console.warn(
+          `[PreviewRuntime] Unbalanced push()/pop() at end of frame ` +
+          `(${leftover} unmatched push, ${unmatchedPops} unmatched pop)`
+        );
+      }
+      while (styleStack.length > 0) {
+        ctx.restore();
+        style = styleStack.pop()!;
+      }
+      if (clipRecording) {
+        clipRecording = null;
+        ctx.beginPath();
+      }
+      if (frameClips > 0) {
+        // Drop only the clips: context state set after them carries over to the next
+        // frame, and the composite op is re-derived from the runtime style
+        const reapply = keepContextState(ctx);
+        while (frameClips > 0) {
+          ctx.restore();
+          frameClips--;
+        }
+        reapply();
+        ctx.globalCompositeOperation = style.erasing ? 'destination-out' : style.blendMode;
+      }
+      overflowDepth = 0;
+      unmatchedPops = 0;
+      pixelOps = 0;
+      // Buffers have no engine of their own — their frames end with this one
+      for (const g of graphicsBuffers) runtimeInternals.get(g)?.endFrame();
+      // p5 semantics: pmouse* hold the position from the previous frame
+      p.pmouseX = p.mouseX;
+      p.pmouseY = p.mouseY;
+    },
+    destroy: () => {
+      for (const g of [...graphicsBuffers]) releaseGraphics(g);
+      pixelImage = null;
+      pressedKeys.clear();
+    },
+    resetClock: () => {
+      clockStartMs = performance.now();
+      lastFrameMs = clockStartMs;
+      lockedClockMs = 0;
+      measuredFrameRate = 0;
+      p.deltaTime = 0;
+      framesDrawn = 0;
+      pendingRedraws = 0;
+    },
+    pressedKeys,
+    targetFrameRate: () => targetFrameRate,
+  });
+
   return p;
 }
@@ -53,6 +53,41 @@ export const PREVIEW_BUDGET = {
   DEGRADE_STRIDE: 2,
 } as const;
 
+/**
+ * Runtime state limits.
+ * Keep sketch-driven state bounded inside a single frame.
+ */
+export const RUNTIME_LIMITS = {
+  /** Maximum nested push() depth; deeper calls are ignored with a warning */
+  MAX_PUSH_DEPTH: 64,
+  /** Pixels read or written per frame by loadPixels/updatePixels/get/set (~5 full passes at 900×900) */
+  MAX_PIXEL_OPS_PER_FRAME: 4_000_000,
+  /** Live createGraphics() buffers per runtime */
+  MAX_GRAPHICS_BUFFERS: 8,
+  /** Images kept in the asset registry behind loadImage() */
+  MAX_ASSETS: 16,
+  /** Decoded pixels per registered image (2048×2048) */
+  MAX_ASSET_PIXELS: 4_194_304,
+} as const;
+
+/**
+ * Image a host may register for loadImage(name): already decoded,
+ * or a `data:image/...` URL the registry decodes. Other URLs are rejected.
+ */
+export type PreviewImageAsset =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | ImageBitmap
+  | OffscreenCanvas
+  | string;
+
+/**
+ * Clock behind millis() and deltaTime.
+ * - 'wall-clock': real elapsed time (default)
+ * - 'frame-locked': fixed 1000 / frameRate() ms per frame, for deterministic captures
+ */
+export type RuntimeTimingMode = 'wall-clock' | 'frame-locked';
+
 /**
  * Preview mode options
  */
@@ -111,6 +146,20 @@ export interface PreviewEngineConfig {
   maxFrames?: number;
   /** Maximum execution time in ms (default: 300000) */
   maxTimeMs?: number;
+  /** Pixel operations allowed per frame (default: RUNTIME_LIMITS.MAX_PIXEL_OPS_PER_FRAME) */
+  maxPixelOpsPerFrame?: number;
+  /** Live createGraphics() buffers allowed (default: RUNTIME_LIMITS.MAX_GRAPHICS_BUFFERS) */
+  maxGraphicsBuffers?: number;
+  /** Images the sketch can load by name with loadImage() — decoded images or data URLs */
+  assets?: Record<string, PreviewImageAsset>;
+  /** Registered images kept (default: RUNTIME_LIMITS.MAX_ASSETS) */
+  maxAssets?: number;
+  /** Decoded pixels allowed per image (default: RUNTIME_LIMITS.MAX_ASSET_PIXELS) */
+  maxAssetPixels?: number;
+  /** Bind pointer and keyboard input to the canvas (default: false) */
+  interactive?: boolean;
+  /** Clock behind millis() and deltaTime (default: 'wall-clock') */
+  timing?: RuntimeTimingMode;
 }
 
 /**
@@ -127,6 +176,8 @@ export interface PreviewStats {
   frames: number;
   stride: number;
   totalTimeMs: number;
+  /** True after the sketch calls noLoop() (until loop()) */
+  paused: boolean;
   budgetExceeded?: { reason: BudgetExceedReason };
 }
 
@@ -164,6 +215,8 @@ export interface PreviewRenderer {
   isRendering: () => boolean;
   /** Get current preview stats (v0.9.0) */
   getPreviewStats: () => PreviewStats;
+  /** Resolves once registered data URL assets have decoded */
+  ready: () => Promise<void>;
   /** Current scale factor (v0.9.0) */
   readonly previewScale: number;
   /** This renderer is NOT canonical */
@@ -0,0 +1,164 @@
+/**
+ * @nexart/ui-renderer - Runtime Color
+ *
+ * Color value type returned by color() in the preview runtime,
+ * plus the RGB / HSB / HSL conversions behind lerpColor() and the
+ * channel accessors (red, hue, brightness, ...).
+ *
+ * PreviewColor stores straight RGBA levels (0-255) and serializes to CSS,
+ * so it can be passed anywhere the runtime accepts a CSS color string.
+ */
+
+export type ColorLevels = [number, number, number, number];
+
+const clampLevel = (v: number) => Math.max(0, Math.min(255, Number.isFinite(v) ? v : 0));
+
+export class PreviewColor {
+  /** Red, green, blue, alpha — each 0-255 (unrounded) */
+  readonly levels: ColorLevels;
+
+  constructor(r: number, g: number, b: number, a: number = 255) {
+    this.levels = [clampLevel(r), clampLevel(g), clampLevel(b), clampLevel(a)];
+  }
+
+  toString(): string {
+    const [r, g, b, a] = this.levels;
+    return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${+(a / 255).toFixed(4)})`;
+  }
+}
+
+/**
+ * RGB (0-255) → HSB: hue 0-360, saturation and brightness 0-1.
+ */
+export function rgbToHsb(r: number, g: number, b: number): [number, number, number] {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const delta = max - Math.min(rn, gn, bn);
+  return [hueOf(rn, gn, bn, max, delta), max === 0 ? 0 : delta / max, max];
+}
+
+/**
+ * HSB (hue 0-360, saturation and brightness 0-1) → RGB (0-255).
+ */
+export function hsbToRgb(h: number, s: number, v: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 60;
+  const c = v * s;
+  const x = c * (1 - Math.abs((hue % 2) - 1));
+  const [r1, g1, b1] = hueSector(hue, c, x);
+  const m = v - c;
+  return [(r1 + m) * 255, (g1 + m) * 255, (b1 + m) * 255];
+}
+
+/**
+ * RGB (0-255) → HSL: hue 0-360, saturation and lightness 0-1.
+ */
+export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const rn = r / 255, gn = g / 255, bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const delta = max - min;
+  const l = (max + min) / 2;
+  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+  return [hueOf(rn, gn, bn, max, delta), s, l];
+}
+
+/**
+ * HSL (hue 0-360, saturation and lightness 0-1) → RGB (0-255).
+ */
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 60;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs((hue % 2) - 1));
+  const [r1, g1, b1] = hueSector(hue, c, x);
+  const m = l - c / 2;
+  return [(r1 + m) * 255, (g1 + m) * 255, (b1 + m) * 255];
+}
+
+function hueOf(r: number, g: number, b: number, max: number, delta: number): number {
+  if (delta === 0) return 0;
+  let h: number;
+  if (max === r) h = ((g - b) / delta) % 6;
+  else if (max === g) h = (b - r) / delta + 2;
+  else h = (r - g) / delta + 4;
+  return (h * 60 + 360) % 360;
+}
+
+function hueSector(hue: number, c: number, x: number): [number, number, number] {
+  if (hue < 1) return [c, x, 0];
+  if (hue < 2) return [x, c, 0];
+  if (hue < 3) return [0, c, x];
+  if (hue < 4) return [0, x, c];
+  if (hue < 5) return [x, 0, c];
+  return [c, 0, x];
+}
+
+function parseChannel(token: string, scale: number): number {
+  const t = token.trim();
+  if (t.endsWith('%')) return (parseFloat(t) / 100) * scale;
+  return parseFloat(t);
+}
+
+function parseAlpha(token: string | undefined): number {
+  if (token === undefined) return 255;
+  const t = token.trim();
+  const a = t.endsWith('%') ? parseFloat(t) / 100 : parseFloat(t);
+  return Number.isFinite(a) ? a * 255 : 255;
+}
+
+/**
+ * Parse a CSS color string (hex, rgb[a](), hsl[a]()).
+ * Other forms (named colors, etc.) are normalized through the canvas context when one is given.
+ */
+export function parseCssColor(css: string, ctx?: CanvasRenderingContext2D): PreviewColor | null {
+  const str = css.trim().toLowerCase();
+
+  if (str.startsWith('#')) {
+    let hex = str.slice(1);
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(ch => ch + ch).join('');
+    if ((hex.length === 6 || hex.length === 8) && /^[0-9a-f]+$/.test(hex)) {
+      const n = (i: number) => parseInt(hex.slice(i, i + 2), 16);
+      return new PreviewColor(n(0), n(2), n(4), hex.length === 8 ? n(6) : 255);
+    }
+    return null;
+  }
+
+  const fn = str.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  if (fn) {
+    const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    if (fn[1].startsWith('rgb')) {
+      return new PreviewColor(
+        parseChannel(parts[0], 255),
+        parseChannel(parts[1], 255),
+        parseChannel(parts[2], 255),
+        parseAlpha(parts[3])
+      );
+    }
+    const [r, g, b] = hslToRgb(parseFloat(parts[0]), parseChannel(parts[1], 1), parseChannel(parts[2], 1));
+    return new PreviewColor(r, g, b, parseAlpha(parts[3]));
+  }
+
+  if (ctx) {
+    // Canvas normalizes any valid CSS color to '#rrggbb' or 'rgba(...)'
+    const previous = ctx.fillStyle;
+    ctx.fillStyle = '#000000';
+    ctx.fillStyle = css;
+    const normalized = ctx.fillStyle;
+    ctx.fillStyle = previous;
+    if (typeof normalized === 'string' && normalized !== css) {
+      return parseCssColor(normalized);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Coerce a runtime color argument (PreviewColor or CSS string) into a PreviewColor.
+ * Unparseable input reads as opaque black.
+ */
+export function toPreviewColor(value: unknown, ctx?: CanvasRenderingContext2D): PreviewColor {
+  if (value instanceof PreviewColor) return value;
+  if (typeof value === 'string') return parseCssColor(value, ctx) ?? new PreviewColor(0, 0, 0);
+  return new PreviewColor(0, 0, 0);
+}
@@ -0,0 +1,162 @@
+/**
+ * @nexart/ui-renderer - Runtime Filters
+ *
+ * Pixel-level implementations of p5's filter() kinds, used when the
+ * browser has no ctx.filter support (or the kind has no CSS equivalent).
+ *
+ * Filters work in place on ImageData from the scaled canvas buffer,
+ * so lengths (the BLUR radius) are in buffer pixels.
+ */
+
+export const FILTER_KINDS = ['blur', 'gray', 'invert', 'threshold', 'posterize', 'dilate', 'erode', 'opaque'] as const;
+
+export type FilterKind = typeof FILTER_KINDS[number];
+
+const luminance = (d: Uint8ClampedArray, i: number) => 0.2126 * d[i] + 0.7152 * d[i + 1] + 0.0722 * d[i + 2];
+
+/**
+ * CSS filter for kinds the canvas can apply natively, or null when only the pixel path works.
+ * `blurPx` is the BLUR radius already converted to buffer pixels.
+ */
+export function cssFilterFor(kind: FilterKind, blurPx: number): string | null {
+  switch (kind) {
+    case 'blur': return `blur(${blurPx}px)`;
+    case 'gray': return 'grayscale(1)';
+    case 'invert': return 'invert(1)';
+    default: return null;
+  }
+}
+
+/**
+ * Apply a filter to image data in place.
+ * `param` is the THRESHOLD level (0-1), POSTERIZE levels (2-255) or BLUR radius (buffer pixels).
+ */
+export function applyPixelFilter(image: ImageData, kind: FilterKind, param?: number): void {
+  const d = image.data;
+
+  switch (kind) {
+    case 'gray':
+      for (let i = 0; i < d.length; i += 4) {
+        const l = luminance(d, i);
+        d[i] = d[i + 1] = d[i + 2] = l;
+      }
+      break;
+
+    case 'invert':
+      for (let i = 0; i < d.length; i += 4) {
+        d[i] = 255 - d[i];
+        d[i + 1] = 255 - d[i + 1];
+        d[i + 2] = 255 - d[i + 2];
+      }
+      break;
+
+    case 'threshold': {
+      const level = (param ?? 0.5) * 255;
+      for (let i = 0; i < d.length; i += 4) {
+        d[i] = d[i + 1] = d[i + 2] = luminance(d, i) >= level ? 255 : 0;
+      }
+      break;
+    }
+
+    case 'posterize': {
+      const levels = Math.max(2, Math.min(255, Math.floor(param ?? 4)));
+      for (let i = 0; i < d.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+          d[i + c] = (255 * ((d[i + c] * levels) >> 8)) / (levels - 1);
+        }
+      }
+      break;
+    }
+
+    case 'opaque':
+      for (let i = 3; i < d.length; i += 4) d[i] = 255;
+      break;
+
+    case 'dilate':
+    case 'erode':
+      morph(image, kind === 'dilate');
+      break;
+
+    case 'blur':
+      blur(image, param ?? 4);
+      break;
+  }
+}
+
+/**
+ * DILATE/ERODE: each pixel takes its brightest (or darkest) 4-neighbour, like p5.
+ */
+function morph(image: ImageData, dilate: boolean): void {
+  const { width, height } = image;
+  const src = new Uint8ClampedArray(image.data);
+  const out = image.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let best = (y * width + x) * 4;
+      let bestLum = luminance(src, best);
+      const neighbours = [
+        x > 0 ? best - 4 : -1,
+        x < width - 1 ? best + 4 : -1,
+        y > 0 ? best - width * 4 : -1,
+        y < height - 1 ? best + width * 4 : -1,
+      ];
+      for (const n of neighbours) {
+        if (n < 0) continue;
+        const lum = luminance(src, n);
+        if (dilate ? lum > bestLum : lum < bestLum) {
+          best = n;
+          bestLum = lum;
+        }
+      }
+      const i = (y * width + x) * 4;
+      out[i] = src[best];
+      out[i + 1] = src[best + 1];
+      out[i + 2] = src[best + 2];
+      out[i + 3] = src[best + 3];
+    }
+  }
+}
+
+/**
+ * Gaussian approximation: three separable box-blur passes sized for sigma = radius.
+ */
+function blur(image: ImageData, radius: number): void {
+  const boxRadius = Math.round((Math.sqrt(4 * radius * radius + 1) - 1) / 2);
+  if (boxRadius < 1) return;
+  const { width, height, data } = image;
+  const tmp = new Uint8ClampedArray(data.length);
+
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlurLine(data, tmp, width, height, boxRadius, 4, width * 4);
+    boxBlurLine(tmp, data, height, width, boxRadius, width * 4, 4);
+  }
+}
+
+/**
+ * One box-blur direction with clamped edges. `step` moves along a line,
+ * `lineStride` moves between lines.
+ */
+function boxBlurLine(
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  length: number,
+  lines: number,
+  r: number,
+  step: number,
+  lineStride: number
+): void {
+  const size = r * 2 + 1;
+  for (let line = 0; line < lines; line++) {
+    const base = line * lineStride;
+    for (let c = 0; c < 4; c++) {
+      const at = (k: number) => src[base + Math.max(0, Math.min(length - 1, k)) * step + c];
+      let sum = 0;
+      for (let k = -r; k <= r; k++) sum += at(k);
+      for (let k = 0; k < length; k++) {
+        dst[base + k * step + c] = sum / size;
+        sum += at(k + r + 1) - at(k - r);
+      }
+    }
+  }
+}
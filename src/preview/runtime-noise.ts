@@ -0,0 +1,206 @@
+/**
+ * @nexart/ui-renderer - Runtime Noise
+ *
+ * Seeded simplex noise (2D/3D/4D) and Worley (cellular) noise behind
+ * simplexNoise(), worleyNoise() and loopNoise() in the preview runtime.
+ *
+ * Both are built from a permutation table shuffled with the runtime's
+ * seeded RNG, so every seed gives a stable field.
+ */
+
+const GRAD3 = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+const GRAD4 = [
+  [0, 1, 1, 1], [0, 1, 1, -1], [0, 1, -1, 1], [0, 1, -1, -1],
+  [0, -1, 1, 1], [0, -1, 1, -1], [0, -1, -1, 1], [0, -1, -1, -1],
+  [1, 0, 1, 1], [1, 0, 1, -1], [1, 0, -1, 1], [1, 0, -1, -1],
+  [-1, 0, 1, 1], [-1, 0, 1, -1], [-1, 0, -1, 1], [-1, 0, -1, -1],
+  [1, 1, 0, 1], [1, 1, 0, -1], [1, -1, 0, 1], [1, -1, 0, -1],
+  [-1, 1, 0, 1], [-1, 1, 0, -1], [-1, -1, 0, 1], [-1, -1, 0, -1],
+  [1, 1, 1, 0], [1, 1, -1, 0], [1, -1, 1, 0], [1, -1, -1, 0],
+  [-1, 1, 1, 0], [-1, 1, -1, 0], [-1, -1, 1, 0], [-1, -1, -1, 0],
+];
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+const F4 = (Math.sqrt(5) - 1) / 4;
+const G4 = (5 - Math.sqrt(5)) / 20;
+
+/** 512-entry permutation (0-255 twice) shuffled with the given RNG */
+function buildPermutation(random: () => number): Uint8Array {
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [p[i], p[j]] = [p[j], p[i]];
+  }
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+  return perm;
+}
+
+export interface SimplexNoise {
+  /** Each returns roughly -1..1 */
+  noise2D: (x: number, y: number) => number;
+  noise3D: (x: number, y: number, z: number) => number;
+  noise4D: (x: number, y: number, z: number, w: number) => number;
+}
+
+/**
+ * Simplex noise after Stefan Gustavson's reference implementation.
+ */
+export function createSimplexNoise(random: () => number): SimplexNoise {
+  const perm = buildPermutation(random);
+  const permMod12 = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) permMod12[i] = perm[i] % 12;
+
+  const noise2D = (xin: number, yin: number): number => {
+    const s = (xin + yin) * F2;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const t = (i + j) * G2;
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+    const [i1, j1] = x0 > y0 ? [1, 0] : [0, 1];
+    const x1 = x0 - i1 + G2, y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2, y2 = y0 - 1 + 2 * G2;
+    const ii = i & 255, jj = j & 255;
+
+    const corner = (x: number, y: number, gi: number) => {
+      let t0 = 0.5 - x * x - y * y;
+      if (t0 < 0) return 0;
+      t0 *= t0;
+      const g = GRAD3[gi];
+      return t0 * t0 * (g[0] * x + g[1] * y);
+    };
+
+    return 70 * (
+      corner(x0, y0, permMod12[ii + perm[jj]]) +
+      corner(x1, y1, permMod12[ii + i1 + perm[jj + j1]]) +
+      corner(x2, y2, permMod12[ii + 1 + perm[jj + 1]])
+    );
+  };
+
+  const noise3D = (xin: number, yin: number, zin: number): number => {
+    const s = (xin + yin + zin) * F3;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const k = Math.floor(zin + s);
+    const t = (i + j + k) * G3;
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+    const z0 = zin - (k - t);
+
+    // Which simplex the point lies in, from the ordering of x0, y0, z0
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0];
+      else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1];
+    } else {
+      if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1];
+      else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0];
+    }
+
+    const ii = i & 255, jj = j & 255, kk = k & 255;
+
+    const corner = (x: number, y: number, z: number, gi: number) => {
+      let t0 = 0.6 - x * x - y * y - z * z;
+      if (t0 < 0) return 0;
+      t0 *= t0;
+      const g = GRAD3[gi];
+      return t0 * t0 * (g[0] * x + g[1] * y + g[2] * z);
+    };
+
+    return 32 * (
+      corner(x0, y0, z0, permMod12[ii + perm[jj + perm[kk]]]) +
+      corner(x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3,
+        permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]]) +
+      corner(x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3,
+        permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]]) +
+      corner(x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3,
+        permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]])
+    );
+  };
+
+  const noise4D = (x: number, y: number, z: number, w: number): number => {
+    const s = (x + y + z + w) * F4;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const l = Math.floor(w + s);
+    const t = (i + j + k + l) * G4;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+    const w0 = w - (l - t);
+
+    // Rank each axis by magnitude to pick the simplex corners
+    let rankx = 0, ranky = 0, rankz = 0, rankw = 0;
+    if (x0 > y0) rankx++; else ranky++;
+    if (x0 > z0) rankx++; else rankz++;
+    if (x0 > w0) rankx++; else rankw++;
+    if (y0 > z0) ranky++; else rankz++;
+    if (y0 > w0) ranky++; else rankw++;
+    if (z0 > w0) rankz++; else rankw++;
+
+    const ii = i & 255, jj = j & 255, kk = k & 255, ll = l & 255;
+
+    const corner = (step: number, offset: number) => {
+      const di = rankx >= step ? 1 : 0;
+      const dj = ranky >= step ? 1 : 0;
+      const dk = rankz >= step ? 1 : 0;
+      const dl = rankw >= step ? 1 : 0;
+      const cx = x0 - di + offset, cy = y0 - dj + offset, cz = z0 - dk + offset, cw = w0 - dl + offset;
+      let t0 = 0.6 - cx * cx - cy * cy - cz * cz - cw * cw;
+      if (t0 < 0) return 0;
+      t0 *= t0;
+      const g = GRAD4[perm[ii + di + perm[jj + dj + perm[kk + dk + perm[ll + dl]]]] % 32];
+      return t0 * t0 * (g[0] * cx + g[1] * cy + g[2] * cz + g[3] * cw);
+    };
+
+    // step 4 is the origin corner (no offsets), step 0 the far corner
+    return 27 * (corner(4, 0) + corner(3, G4) + corner(2, 2 * G4) + corner(1, 3 * G4) + corner(0, 4 * G4));
+  };
+
+  return { noise2D, noise3D, noise4D };
+}
+
+/**
+ * Worley (cellular) noise: distance to the nearest feature point, one point per unit cell.
+ * Returns 0 at a feature point, clamped to 1.
+ */
+export function createWorleyNoise(random: () => number): (x: number, y: number, z?: number) => number {
+  const perm = buildPermutation(random);
+  const offsets = new Float64Array(256 * 3);
+  for (let i = 0; i < offsets.length; i++) offsets[i] = random();
+
+  return (x: number, y: number, z?: number) => {
+    const is3D = z !== undefined;
+    const zz = z ?? 0;
+    const cx = Math.floor(x), cy = Math.floor(y), cz = Math.floor(zz);
+    let nearest = Infinity;
+
+    for (let dz = is3D ? -1 : 0; dz <= (is3D ? 1 : 0); dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const gx = cx + dx, gy = cy + dy, gz = cz + dz;
+          const h = perm[perm[perm[gx & 255] + (gy & 255)] + (gz & 255)] * 3;
+          const px = gx + offsets[h] - x;
+          const py = gy + offsets[h + 1] - y;
+          const pz = is3D ? gz + offsets[h + 2] - zz : 0;
+          nearest = Math.min(nearest, px * px + py * py + pz * pz);
+        }
+      }
+    }
+
+    return Math.min(1, Math.sqrt(nearest));
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * @nexart/ui-renderer - Sketch Analysis
+ *
+ * Pre-flight check of sketch source against the preview runtime API.
+ *
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  SKETCH ANALYSIS — STATIC, NOTHING IS EXECUTED                           ║
+ * ║                                                                          ║
+ * ║  Source is tokenized, never run. Every free identifier (not declared     ║
+ * ║  by the sketch) must be a runtime key or a safe global; anything else    ║
+ * ║  is reported with a "did you mean" suggestion and whether the Code       ║
+ * ║  Mode SDK provides it.                                                   ║
+ * ║                                                                          ║
+ * ║  Declarations are collected without scoping — a name declared anywhere   ║
+ * ║  counts as declared everywhere. The check errs towards silence.          ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { tokenizeSketch, type SketchToken } from './sketch-tokenizer';
+import { createPreviewRuntime, destroyRuntime, LIVE_RUNTIME_PROPS } from './preview-runtime';
+import { SKETCH_EVENT_HANDLERS } from './input-binding';
+
+export interface UnknownIdentifier {
+  name: string;
+  /** First occurrence, 1-based */
+  line: number;
+  column: number;
+  occurrences: number;
+  /** Closest runtime or safe-global name, or null when nothing is close */
+  suggestion: string | null;
+  /** Provided by the Code Mode SDK (protocol v1.2.0) */
+  codeModeSupported: boolean;
+  /** Resolves to a browser global in preview — runs, but outside the runtime API */
+  browserGlobal: boolean;
+}
+
+export interface SketchAnalysis {
+  /** True when every free identifier is a runtime key or a safe global */
+  valid: boolean;
+  /** In order of first occurrence */
+  unknownIdentifiers: UnknownIdentifier[];
+}
+
+/**
+ * Language built-ins sketches may use freely. Browser APIs (window, document,
+ * fetch, Date, setTimeout, ...) are deliberately absent.
+ */
+export const SAFE_GLOBALS: ReadonlySet<string> = new Set([
+  'Math', 'Number', 'String', 'Boolean', 'Array', 'Object', 'JSON', 'Symbol', 'BigInt',
+  'Map', 'Set', 'WeakMap', 'WeakSet', 'Reflect',
+  'Infinity', 'NaN', 'undefined', 'isNaN', 'isFinite', 'parseInt', 'parseFloat',
+  'Error', 'TypeError', 'RangeError',
+  'ArrayBuffer', 'DataView', 'Float32Array', 'Float64Array', 'Int8Array', 'Int16Array',
+  'Int32Array', 'Uint8Array', 'Uint8ClampedArray', 'Uint16Array', 'Uint32Array',
+  'console',
+]);
+
+/**
+ * Code Mode SDK surface, from CODE_MODE_PROTOCOL.md v1.2.0 §4–5
+ * (globals, constants and functions; language built-ins are not listed).
+ */
+export const CODE_MODE_API: ReadonlySet<string> = new Set([
+  'setup', 'draw', 'VAR',
+  'width', 'height', 'frameCount', 't', 'time', 'tGlobal', 'totalFrames',
+  'PI', 'TWO_PI', 'TAU', 'HALF_PI', 'QUARTER_PI',
+  'line', 'rect', 'square', 'ellipse', 'circle', 'triangle', 'quad', 'arc', 'point',
+  'beginShape', 'vertex', 'endShape', 'curveVertex', 'bezierVertex', 'bezier', 'curve',
+  'polygon', 'star',
+  'fill', 'noFill', 'stroke', 'noStroke', 'strokeWeight', 'strokeCap', 'strokeJoin',
+  'background', 'clear', 'colorMode', 'blendMode',
+  'NORMAL', 'ADD', 'MULTIPLY', 'SCREEN',
+  'CORNER', 'CENTER', 'CORNERS', 'RADIUS', 'CLOSE', 'ROUND', 'SQUARE', 'PROJECT',
+  'MITER', 'BEVEL', 'PIE', 'CHORD', 'OPEN', 'LEFT', 'RIGHT', 'TOP', 'BOTTOM', 'BASELINE',
+  'color', 'lerpColor', 'red', 'green', 'blue', 'alpha', 'hue', 'saturation', 'brightness',
+  'push', 'pop', 'translate', 'rotate', 'scale', 'resetMatrix', 'shearX', 'shearY',
+  'random', 'randomSeed', 'randomGaussian',
+  'noise', 'noiseSeed', 'noiseDetail', 'fbm', 'ridgedNoise', 'curlNoise',
+  'map', 'constrain', 'lerp', 'dist', 'mag', 'norm',
+  'abs', 'floor', 'ceil', 'round', 'sqrt', 'pow', 'exp', 'log',
+  'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'atan2', 'min', 'max', 'radians', 'degrees',
+  'sq', 'int', 'fract', 'sign',
+  'vec', 'vecAdd', 'vecSub', 'vecMult', 'vecMag', 'vecNorm', 'vecDist',
+  'easeIn', 'easeOut', 'easeInOut', 'easeCubic', 'easeExpo',
+  'text', 'textSize', 'textFont', 'textAlign', 'textWidth',
+  'loadPixels', 'updatePixels', 'pixels', 'get', 'set',
+  'createGraphics', 'image',
+]);
+
+let runtimeKeys: ReadonlySet<string> | null = null;
+
+/**
+ * Every name a sketch can reach in the preview scope, read from a probe runtime
+ * on a detached canvas (created once, then cached).
+ */
+function getRuntimeKeys(): ReadonlySet<string> {
+  if (runtimeKeys) return runtimeKeys;
+  const canvas = document.createElement('canvas');
+  const runtime = createPreviewRuntime(canvas, 100, 100);
+  runtimeKeys = new Set([
+    ...Object.keys(runtime),
+    ...LIVE_RUNTIME_PROPS,
+    'setup', 'draw', 'preload',
+    ...SKETCH_EVENT_HANDLERS,
+  ]);
+  destroyRuntime(runtime);
+  return runtimeKeys;
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/** Punctuators after which an identifier in a pattern is a binding, not a default value */
+const BINDING_PREFIXES = new Set(['(', '[', '{', ',', '...', ':']);
+
+const isPunct = (token: SketchToken | undefined, value: string) =>
+  token?.type === 'punctuator' && token.value === value;
+
+/** Index of the bracket closing the one at `open` (last token if unbalanced) */
+function findClose(tokens: SketchToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].type !== 'punctuator') continue;
+    if (OPENERS[tokens[i].value]) depth++;
+    else if (CLOSERS[tokens[i].value] && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+/** Index of the bracket opening the one at `close` (first token if unbalanced) */
+function findOpen(tokens: SketchToken[], close: number): number {
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (tokens[i].type !== 'punctuator') continue;
+    if (CLOSERS[tokens[i].value]) depth++;
+    else if (OPENERS[tokens[i].value] && --depth === 0) return i;
+  }
+  return 0;
+}
+
+/** Token that can end an expression, so a line break after it may end a statement */
+function endsExpression(token: SketchToken): boolean {
+  if (token.type === 'punctuator') return [')', ']', '}'].includes(token.value);
+  if (token.type === 'keyword') return ['this', 'true', 'false', 'null'].includes(token.value);
+  return true;
+}
+
+/**
+ * Names the sketch declares anywhere (variables, functions, classes, parameters,
+ * catch bindings), plus token indexes of method names, which are not references.
+ */
+function collectDeclarations(tokens: SketchToken[]): { declared: Set<string>; methodNames: Set<number> } {
+  const declared = new Set<string>();
+  const methodNames = new Set<number>();
+
+  // Bindings inside a bracketed pattern or parameter list [open, close]
+  const declarePattern = (open: number, close: number) => {
+    for (let k = open + 1; k < close; k++) {
+      const token = tokens[k];
+      if (token.type !== 'identifier') continue;
+      const prev = tokens[k - 1];
+      if (prev.type === 'punctuator' && BINDING_PREFIXES.has(prev.value) && !isPunct(tokens[k + 1], ':')) {
+        declared.add(token.value);
+      }
+    }
+  };
+
+  // var/let/const declarator list starting at i (just after the keyword)
+  const declareVariables = (i: number) => {
+    let j = i;
+    while (j < tokens.length) {
+      const target = tokens[j];
+      if (target.type === 'identifier') {
+        declared.add(target.value);
+        j++;
+      } else if (isPunct(target, '{') || isPunct(target, '[')) {
+        const close = findClose(tokens, j);
+        declarePattern(j, close);
+        j = close + 1;
+      } else {
+        return;
+      }
+
+      // Skip the initializer up to the next declarator or the end of the statement
+      let depth = 0;
+      for (; j < tokens.length; j++) {
+        const token = tokens[j];
+        if (depth === 0 && token.newlineBefore && endsExpression(tokens[j - 1])
+          && (token.type === 'identifier' || token.type === 'keyword')) return;
+        if (token.type === 'keyword' && depth === 0 && (token.value === 'of' || token.value === 'in')) return;
+        if (token.type !== 'punctuator') continue;
+        if (OPENERS[token.value]) depth++;
+        else if (CLOSERS[token.value]) {
+          if (depth === 0) return;
+          depth--;
+        } else if (depth === 0 && token.value === ';') return;
+        else if (depth === 0 && token.value === ',') break;
+      }
+      j++;
+    }
+  };
+
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+
+    if (token.type === 'keyword') {
+      if (token.value === 'var' || token.value === 'let' || token.value === 'const') {
+        declareVariables(i + 1);
+      } else if (token.value === 'function') {
+        let j = i + 1;
+        if (isPunct(tokens[j], '*')) j++;
+        if (tokens[j]?.type === 'identifier') declared.add(tokens[j++].value);
+        if (isPunct(tokens[j], '(')) declarePattern(j, findClose(tokens, j));
+      } else if (token.value === 'class' && next?.type === 'identifier') {
+        declared.add(next.value);
+      } else if (token.value === 'catch' && isPunct(next, '(')) {
+        declarePattern(i + 1, findClose(tokens, i + 1));
+      }
+      return;
+    }
+
+    // Arrow function parameters: `x =>` or `(a, b) =>`
+    if (isPunct(token, '=>')) {
+      const prev = tokens[i - 1];
+      if (prev?.type === 'identifier') declared.add(prev.value);
+      else if (isPunct(prev, ')')) declarePattern(findOpen(tokens, i - 1), i - 1);
+      return;
+    }
+
+    // Method definitions in classes and object literals: `name(params) {`
+    if (token.type === 'identifier' && isPunct(next, '(')) {
+      const prev = tokens[i - 1];
+      if (isPunct(prev, '.') || isPunct(prev, '?.')) return;
+      const close = findClose(tokens, i + 1);
+      if (isPunct(tokens[close + 1], '{')) {
+        methodNames.add(i);
+        declarePattern(i + 1, close);
+      }
+    }
+  });
+
+  return { declared, methodNames };
+}
+
+/**
+ * Whether the identifier at i reads a variable, rather than naming a property,
+ * an object key or a label.
+ */
+function isReference(tokens: SketchToken[], i: number): boolean {
+  const prev = tokens[i - 1];
+  if (isPunct(prev, '.') || isPunct(prev, '?.')) return false;
+  if (prev?.type === 'keyword' && (prev.value === 'break' || prev.value === 'continue')) return false;
+  if (isPunct(tokens[i + 1], ':')) {
+    if (!prev || (prev.type === 'punctuator' && ['{', ',', ';', '}'].includes(prev.value))) return false;
+  }
+  return true;
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      nextRow[j] = Math.min(
+        row[j] + 1,
+        nextRow[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    row = nextRow;
+  }
+  return row[b.length];
+}
+
+/**
+ * Closest candidate by case-insensitive edit distance, allowing roughly
+ * one edit per three characters. Ties go to the alphabetically first name.
+ */
+function suggest(name: string, candidates: Iterable<string>): string | null {
+  const lower = name.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    if (candidate.startsWith('__')) continue;
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance > maxDistance) continue;
+    if (distance < bestDistance || (distance === bestDistance && best !== null && candidate < best)) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Analyze sketch source for identifiers the preview runtime does not provide.
+ * Browser only: the runtime key set is read from a probe runtime.
+ *
+ * @example
+ * const { valid, unknownIdentifiers } = analyzeSketch(source);
+ * // [{ name: 'strokeWieght', line: 4, column: 3, suggestion: 'strokeWeight', ... }]
+ */
+export function analyzeSketch(source: string): SketchAnalysis {
+  const tokens = tokenizeSketch(source);
+  const { declared, methodNames } = collectDeclarations(tokens);
+  const known = getRuntimeKeys();
+  const found = new Map<string, UnknownIdentifier>();
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier' || methodNames.has(i)) return;
+    const name = token.value;
+    if (declared.has(name) || known.has(name) || SAFE_GLOBALS.has(name)) return;
+    if (!isReference(tokens, i)) return;
+
+    const existing = found.get(name);
+    if (existing) {
+      existing.occurrences++;
+      return;
+    }
+    found.set(name, {
+      name,
+      line: token.line,
+      column: token.column,
+      occurrences: 1,
+      suggestion: suggest(name, [...known, ...SAFE_GLOBALS]),
+      codeModeSupported: CODE_MODE_API.has(name),
+      browserGlobal: name in globalThis,
+    });
+  });
+
+  const unknownIdentifiers = [...found.values()];
+  return { valid: unknownIdentifiers.length === 0, unknownIdentifiers };
+}
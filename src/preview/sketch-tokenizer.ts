@@ -0,0 +1,209 @@
+/**
+ * @nexart/ui-renderer - Sketch Tokenizer
+ *
+ * Lightweight JavaScript tokenizer for pre-flight sketch analysis.
+ * It does not parse: it splits source into tokens with positions so
+ * analyzeSketch() can find identifiers without executing anything.
+ *
+ * Comments are dropped. Template literals yield `template` tokens for
+ * their text and ordinary tokens for each `${...}` expression.
+ */
+
+export type SketchTokenType =
+  | 'identifier'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'template'
+  | 'regex'
+  | 'punctuator';
+
+export interface SketchToken {
+  type: SketchTokenType;
+  value: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** A line break separates this token from the previous one */
+  newlineBefore: boolean;
+}
+
+export const JS_KEYWORDS: ReadonlySet<string> = new Set([
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+  'default', 'delete', 'do', 'else', 'export', 'extends', 'false', 'finally',
+  'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var',
+  'void', 'while', 'with', 'yield', 'async', 'of', 'static', 'get', 'set',
+  'arguments',
+]);
+
+/** Keywords after which a `/` starts a regex rather than a division */
+const REGEX_AFTER_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+// Longest first, so '>>>=' wins over '>>' and '>'
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=',
+  '*=', '/=', '%=', '&=', '|=', '^=', '**', '<<', '>>',
+  '{', '}', '(', ')', '[', ']', ';', ',', '<', '>', '+', '-', '*', '/', '%',
+  '&', '|', '^', '!', '~', '?', ':', '=', '.', '@', '#',
+];
+
+const IDENTIFIER = /[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*/uy;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)n?/y;
+
+/**
+ * Split sketch source into tokens. Never throws: unterminated strings,
+ * templates and comments simply end at the end of the source.
+ */
+export function tokenizeSketch(source: string): SketchToken[] {
+  const tokens: SketchToken[] = [];
+  // Open '{' and '${' — a '}' closing '${' resumes the template it came from
+  const braces: ('{' | '${')[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let newlineBefore = false;
+
+  const advanceTo = (end: number) => {
+    for (let i = pos; i < end; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+        newlineBefore = true;
+      }
+    }
+    pos = end;
+  };
+
+  const push = (type: SketchTokenType, end: number) => {
+    const token: SketchToken = {
+      type,
+      value: source.slice(pos, end),
+      line,
+      column: pos - lineStart + 1,
+      newlineBefore,
+    };
+    tokens.push(token);
+    advanceTo(end);
+    // Breaks inside a multi-line token don't count as before the next one
+    newlineBefore = false;
+  };
+
+  // Template text from pos (its '`' or closing '}') through the next '${' or '`'
+  const scanTemplate = () => {
+    let i = pos + 1;
+    while (i < source.length) {
+      if (source[i] === '\\') { i += 2; continue; }
+      if (source[i] === '`') {
+        push('template', i + 1);
+        return;
+      }
+      if (source[i] === '$' && source[i + 1] === '{') {
+        push('template', i + 2);
+        braces.push('${');
+        return;
+      }
+      i++;
+    }
+    push('template', source.length);
+  };
+
+  const regexAllowed = (): boolean => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) return true;
+    if (prev.type === 'keyword') return REGEX_AFTER_KEYWORDS.has(prev.value);
+    if (prev.type === 'punctuator') return ![')', ']', '}'].includes(prev.value);
+    return false;
+  };
+
+  const scanRegex = (): number => {
+    let i = pos + 1;
+    let inClass = false;
+    while (i < source.length && source[i] !== '\n') {
+      const ch = source[i];
+      if (ch === '\\') { i += 2; continue; }
+      if (ch === '[') inClass = true;
+      else if (ch === ']') inClass = false;
+      else if (ch === '/' && !inClass) {
+        i++;
+        while (i < source.length && /[a-z]/i.test(source[i])) i++;
+        return i;
+      }
+      i++;
+    }
+    return i;
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const next = source[pos + 1];
+
+    if (/\s/.test(ch)) {
+      advanceTo(pos + 1);
+      continue;
+    }
+
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', pos);
+      advanceTo(end === -1 ? source.length : end);
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', pos + 2);
+      advanceTo(end === -1 ? source.length : end + 2);
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let i = pos + 1;
+      while (i < source.length && source[i] !== ch && source[i] !== '\n') {
+        i += source[i] === '\\' ? 2 : 1;
+      }
+      push('string', Math.min(i + 1, source.length));
+      continue;
+    }
+
+    if (ch === '`') {
+      scanTemplate();
+      continue;
+    }
+
+    if (ch === '}' && braces[braces.length - 1] === '${') {
+      braces.pop();
+      scanTemplate();
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = pos;
+    const ident = IDENTIFIER.exec(source);
+    if (ident) {
+      push(JS_KEYWORDS.has(ident[0]) ? 'keyword' : 'identifier', pos + ident[0].length);
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(next ?? ''))) {
+      NUMBER.lastIndex = pos;
+      const num = NUMBER.exec(source);
+      push('number', pos + (num ? num[0].length : 1));
+      continue;
+    }
+
+    if (ch === '/' && regexAllowed()) {
+      push('regex', scanRegex());
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, pos)) ?? ch;
+    if (punctuator === '{') braces.push('{');
+    else if (punctuator === '}') braces.pop();
+    push('punctuator', pos + punctuator.length);
+  }
+
+  return tokens;
+}
@@ -8,7 +8,15 @@ import type { UnifiedSystem, UnifiedElement, PreviewOptions, ColorPalette, Sketc
 import { compileBackgroundPreset, getPaletteColors } from '../presets/backgrounds';
 import { compilePrimitive } from '../presets/primitives';
 import { wrapSketch, validateSketchSafety } from '../presets/sketch-wrapper';
-import { createPreviewRuntime } from './preview-runtime';
+import {
+  createPreviewRuntime,
+  destroyRuntime,
+  beginRuntimeFrame,
+  endRuntimeFrame,
+  resetRuntimeClock,
+  isRuntimeFrameDue,
+  type PreviewP5Runtime,
+} from './preview-runtime';
 import { calculateScaledDimensions, applyScaledDimensions, reapplyContextScale, clearCanvasIgnoringTransform } from './canvas-scaler';
 import { createFpsThrottle, shouldRenderFrame, recordFrame, resetThrottle } from './frame-budget';
 import { PREVIEW_FPS, CANVAS_LIMITS } from './preview-types';
@@ -131,6 +139,7 @@ export function renderUnifiedSystem(
   let animationId: number | null = null;
   let isRunning = false;
   let isDestroyed = false;
+  let runtime: PreviewP5Runtime | null = null;
   const throttle = createFpsThrottle();
 
   const palette = inferPalette(system.elements);
@@ -184,7 +193,7 @@ export function renderUnifiedSystem(
     const padding = 6;
     const badgeWidth = metrics.width + padding * 2;
     const badgeHeight = 18;
-    const x = scaled.renderWidth - badgeWidth - 6;
+    const x = canvas.width - badgeWidth - 6;
     const y = 6;
 
     ctx.fillStyle = 'rgba(255, 100, 100, 0.15)';
@@ -289,14 +298,26 @@ export function renderUnifiedSystem(
       // ║  DO NOT pass renderWidth/renderHeight — breaks loop animations.       ║
       // ║  Scaling is handled by ctx.scale(), not by changing width/height.     ║
       // ╚═══════════════════════════════════════════════════════════════════════╝
+      if (runtime) destroyRuntime(runtime);
+      // A previous run's createCanvas()/resizeCanvas() may have resized the buffer
+      if (canvas.width !== scaled.renderWidth || canvas.height !== scaled.renderHeight) {
+        applyScaledDimensions(canvas, scaled);
+        reapplyContextScale(canvas, scaled);
+      }
       const p = createPreviewRuntime(
         canvas,
         scaled.originalWidth,   // ← Protocol dimension
         scaled.originalHeight,  // ← Protocol dimension
         system.seed
       );
+      runtime = p;
 
-      runSetup(p);
+      resetRuntimeClock(p);
+      try {
+        runSetup(p);
+      } finally {
+        endRuntimeFrame(p);
+      }
       resetThrottle(throttle);
       isRunning = true;
 
@@ -314,6 +335,9 @@ export function renderUnifiedSystem(
         // Exit if stopped or destroyed
         if (!isRunning || isDestroyed) return;
 
+        // noLoop() pauses draw() until loop() or redraw(n)
+        if (!isRuntimeFrameDue(p)) return;
+
         // FPS throttle — skip if not enough time has passed
         if (!shouldRenderFrame(throttle)) {
           return;  // Preserve current canvas
@@ -328,11 +352,15 @@ export function renderUnifiedSystem(
         p.noiseSeed(system.seed);
 
         try {
+          beginRuntimeFrame(p);
           runDraw(p, frameCount, t);
           drawBadge();
           recordFrame(throttle);
         } catch (error) {
           console.warn('[UIRenderer] Draw error:', error);
+        } finally {
+          // A throwing draw must still unwind push()/clip state and reset the pixel budget
+          endRuntimeFrame(p);
         }
       };
 
@@ -367,6 +395,8 @@ export function renderUnifiedSystem(
     isDestroyed = true;
     stop();
     clearCanvasIgnoringTransform(ctx, canvas);
+    if (runtime) destroyRuntime(runtime);
+    runtime = null;
   };
 
   const renderer: UnifiedRenderer = {
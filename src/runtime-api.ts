@@ -0,0 +1,512 @@
+/**
+ * @nexart/ui-renderer v0.9.1 - Runtime API Manifest
+ *
+ * Describes every function, constant and variable a sketch can use in the
+ * preview runtime — for editor autocomplete and for code-generating tools.
+ *
+ * ⚠️ PREVIEW ONLY
+ * `simplified` marks behavior that differs from p5 / Code Mode in preview.
+ * `codeModeSupported` marks names the canonical Code Mode runtime also provides.
+ * For canonical output: use @nexart/codemode-sdk
+ */
+
+import { CODE_MODE_API } from './preview/sketch-analysis';
+import { SKETCH_EVENT_HANDLERS } from './preview/input-binding';
+
+export type RuntimeApiCategory =
+  | 'canvas'
+  | 'color'
+  | 'style'
+  | 'paint'
+  | 'transform'
+  | 'clipping'
+  | 'shape'
+  | 'curve'
+  | 'typography'
+  | 'image'
+  | 'pixels'
+  | 'math'
+  | 'random'
+  | 'noise'
+  | 'vector'
+  | 'easing'
+  | 'input'
+  | 'time'
+  | 'loop'
+  | 'environment'
+  | 'debug';
+
+export interface RuntimeFunctionSpec {
+  name: string;
+  category: RuntimeApiCategory;
+  /** Call signature, e.g. `rect(x, y, w, h?, r?)` — `?` marks optional parameters */
+  signature: string;
+  returns: string;
+  description: string;
+  simplified: boolean;
+  /** How preview differs, when simplified */
+  simplification?: string;
+  codeModeSupported: boolean;
+}
+
+export interface RuntimeConstantSpec {
+  name: string;
+  category: RuntimeApiCategory;
+  /** `variable` values change while the sketch runs (frameCount, mouseX, ...) */
+  kind: 'constant' | 'variable';
+  type: string;
+  description: string;
+  simplified: boolean;
+  simplification?: string;
+  codeModeSupported: boolean;
+}
+
+export interface RuntimeHookSpec {
+  name: string;
+  /** Signature the sketch defines */
+  signature: string;
+  description: string;
+  codeModeSupported: boolean;
+}
+
+export interface RuntimeApi {
+  version: string;
+  isCanonical: false;
+  renderer: '@nexart/ui-renderer';
+  functions: RuntimeFunctionSpec[];
+  constants: RuntimeConstantSpec[];
+  /** Functions the sketch defines and the runtime calls */
+  hooks: RuntimeHookSpec[];
+}
+
+type FunctionEntry = Omit<RuntimeFunctionSpec, 'category'>;
+type ConstantEntry = Omit<RuntimeConstantSpec, 'category'>;
+
+function fn(signature: string, returns: string, description: string, simplification?: string): FunctionEntry {
+  const name = signature.slice(0, signature.indexOf('('));
+  return {
+    name,
+    signature,
+    returns,
+    description,
+    simplified: simplification !== undefined,
+    ...(simplification !== undefined && { simplification }),
+    codeModeSupported: CODE_MODE_API.has(name),
+  };
+}
+
+function constant(name: string, type: string, description: string, simplification?: string): ConstantEntry {
+  return {
+    name,
+    kind: 'constant',
+    type,
+    description,
+    simplified: simplification !== undefined,
+    ...(simplification !== undefined && { simplification }),
+    codeModeSupported: CODE_MODE_API.has(name),
+  };
+}
+
+function variable(name: string, type: string, description: string, simplification?: string): ConstantEntry {
+  return { ...constant(name, type, description, simplification), kind: 'variable' };
+}
+
+function group<T extends FunctionEntry | ConstantEntry>(
+  category: RuntimeApiCategory,
+  entries: T[]
+): (T & { category: RuntimeApiCategory })[] {
+  return entries.map(entry => ({ ...entry, category }));
+}
+
+const PIXEL_BUDGET = 'Skipped once the per-frame pixel budget (maxPixelOpsPerFrame) is spent';
+
+export function getRuntimeApi(): RuntimeApi {
+  return {
+    version: '0.9.1',
+    isCanonical: false,
+    renderer: '@nexart/ui-renderer',
+
+    functions: [
+      ...group('canvas', [
+        fn('createCanvas(w, h, renderer?)', 'void', 'Resize the drawing surface (semantic size)',
+          'Only the 2D renderer exists; WEBGL sketches draw in 2D'),
+        fn('resizeCanvas(w, h, noRedraw?)', 'void', 'Resize the canvas; a paused sketch redraws once unless noRedraw'),
+        fn('background(...color)', 'void', 'Fill the whole canvas with a color or gradient'),
+        fn('clear()', 'void', 'Make the whole canvas transparent'),
+        fn('blendMode(mode)', 'void', 'BLEND (or NORMAL), ADD, MULTIPLY, SCREEN or a canvas composite operation for later drawing'),
+        fn('erase(fillStrength?, strokeStrength?)', 'void', 'Following shapes remove pixels instead of painting (0-255)'),
+        fn('noErase()', 'void', 'Stop erasing and restore the blend mode'),
+        fn('createGraphics(w, h)', 'Graphics', 'Offscreen buffer with the same drawing API; draw it with image()',
+          'At most maxGraphicsBuffers buffers per runtime'),
+        fn('pixelDensity()', 'number', 'Pixel density (always 1)',
+          'Read-only; pixels[] follows the preview buffer, not width × pixelDensity(), on scaled canvases'),
+      ]),
+
+      ...group('color', [
+        fn('color(...args)', 'Color', 'Color from gray, RGB(A) or HSB/HSL values, a CSS string, or an array of those values (e.g. from get(x, y))'),
+        fn('lerpColor(c1, c2, amt)', 'Color', 'Interpolate between two colors (0-1)'),
+        fn('red(c)', 'number', 'Red channel in the current color mode range'),
+        fn('green(c)', 'number', 'Green channel in the current color mode range'),
+        fn('blue(c)', 'number', 'Blue channel in the current color mode range'),
+        fn('alpha(c)', 'number', 'Alpha channel in the current color mode range'),
+        fn('hue(c)', 'number', 'Hue (HSB or HSL)'),
+        fn('saturation(c)', 'number', 'Saturation (HSB or HSL)'),
+        fn('brightness(c)', 'number', 'HSB brightness'),
+        fn('lightness(c)', 'number', 'HSL lightness'),
+        fn('colorMode(mode, max1?, max2?, max3?, maxA?)', 'void', 'RGB, HSB or HSL with optional channel ranges'),
+      ]),
+
+      ...group('style', [
+        fn('fill(...color)', 'void', 'Fill color or gradient for shapes and text; takes the same arguments as color()'),
+        fn('noFill()', 'void', 'Disable filling'),
+        fn('stroke(...color)', 'void', 'Stroke color or gradient; takes the same arguments as color()'),
+        fn('noStroke()', 'void', 'Disable stroking'),
+        fn('strokeWeight(w)', 'void', 'Stroke width'),
+        fn('strokeCap(cap)', 'void', 'ROUND, SQUARE or PROJECT line ends'),
+        fn('strokeJoin(join)', 'void', 'MITER, BEVEL or ROUND corners'),
+        fn('rectMode(mode)', 'void', 'How rect() reads its arguments: CORNER, CORNERS, CENTER or RADIUS'),
+        fn('ellipseMode(mode)', 'void', 'How ellipse() and arc() read their arguments'),
+        fn('imageMode(mode)', 'void', 'How image() reads its arguments'),
+        fn('lineDash(segments?, offset?)', 'void', 'Dash pattern for strokes; [] for solid lines'),
+        fn('shadow(blur, offsetX?, offsetY?, c?)', 'void', 'Drop shadow for following shapes'),
+        fn('noShadow()', 'void', 'Disable the drop shadow'),
+      ]),
+
+      ...group('paint', [
+        fn('linearGradient(x0, y0, x1, y1, stops)', 'Gradient', 'Linear gradient usable in fill(), stroke() and background()'),
+        fn('radialGradient(x, y, r, stops)', 'Gradient', 'Radial gradient; also (x0, y0, r0, x1, y1, r1, stops)'),
+        fn('conicGradient(startAngle, x, y, stops)', 'Gradient | Color', 'Conic (sweep) gradient around a center',
+          'Falls back to the first stop color in browsers without conic gradients'),
+      ]),
+
+      ...group('transform', [
+        fn('push()', 'void', 'Save style, transform and clip'),
+        fn('pop()', 'void', 'Restore what the matching push() saved'),
+        fn('translate(x, y)', 'void', 'Move the origin'),
+        fn('rotate(angle)', 'void', 'Rotate by angle (radians)'),
+        fn('scale(sx, sy?)', 'void', 'Scale uniformly or per axis'),
+        fn('shearX(angle)', 'void', 'Shear along the x axis'),
+        fn('shearY(angle)', 'void', 'Shear along the y axis'),
+        fn('applyMatrix(a, b, c, d, e, f)', 'void', 'Multiply the current transform; also takes an array'),
+        fn('resetMatrix()', 'void', 'Reset to the identity transform'),
+        fn('getTransform()', 'DOMMatrix', 'Current transform in semantic units'),
+      ]),
+
+      ...group('clipping', [
+        fn('beginClip(options?)', 'void', 'Start recording a clip mask; { invert: true } clips outside it'),
+        fn('endClip()', 'void', 'Apply the recorded mask until pop()'),
+        fn('clip(callback, options?)', 'void', 'Clip to the shapes drawn by callback'),
+      ]),
+
+      ...group('shape', [
+        fn('point(x, y)', 'void', 'Single point sized by strokeWeight'),
+        fn('line(x1, y1, x2, y2)', 'void', 'Straight line'),
+        fn('rect(x, y, w, h?, r?)', 'void', 'Rectangle with optional corner radius'),
+        fn('square(x, y, s, r?)', 'void', 'Square with optional corner radius'),
+        fn('ellipse(x, y, w, h?)', 'void', 'Ellipse'),
+        fn('circle(x, y, d)', 'void', 'Circle by diameter'),
+        fn('triangle(x1, y1, x2, y2, x3, y3)', 'void', 'Triangle'),
+        fn('quad(x1, y1, x2, y2, x3, y3, x4, y4)', 'void', 'Quadrilateral'),
+        fn('arc(x, y, w, h, start, stop, mode?)', 'void', 'Elliptical arc; mode closes it as a pie or chord'),
+        fn('polygon(x, y, r, n)', 'void', 'Regular polygon with n sides'),
+        fn('star(x, y, r1, r2, n)', 'void', 'Star with n points between radii r1 and r2'),
+        fn('beginShape(kind?)', 'void', 'Start a custom shape; kind is POINTS, LINES, TRIANGLES, ...'),
+        fn('vertex(x, y)', 'void', 'Add a vertex'),
+        fn('curveVertex(x, y)', 'void', 'Add a Catmull-Rom curve vertex'),
+        fn('bezierVertex(x2, y2, x3, y3, x4, y4)', 'void', 'Add a cubic Bézier segment'),
+        fn('quadraticVertex(cx, cy, x3, y3)', 'void', 'Add a quadratic Bézier segment'),
+        fn('beginContour()', 'void', 'Start a hole inside the current shape'),
+        fn('endContour()', 'void', 'End the hole'),
+        fn('endShape(mode?)', 'void', 'Finish the shape; CLOSE joins the last vertex to the first'),
+      ]),
+
+      ...group('curve', [
+        fn('bezier(x1, y1, x2, y2, x3, y3, x4, y4)', 'void', 'Cubic Bézier curve'),
+        fn('curve(x1, y1, x2, y2, x3, y3, x4, y4)', 'void', 'Catmull-Rom curve between the middle points'),
+        fn('curveTightness(amount)', 'void', 'Tightness of curve() and curveVertex() (0 = Catmull-Rom)'),
+        fn('bezierPoint(a, b, c, d, t)', 'number', 'Coordinate on a Bézier curve at t'),
+        fn('bezierTangent(a, b, c, d, t)', 'number', 'Tangent of a Bézier curve at t'),
+        fn('curvePoint(a, b, c, d, t)', 'number', 'Coordinate on a curve at t'),
+        fn('curveTangent(a, b, c, d, t)', 'number', 'Tangent of a curve at t'),
+        fn('bezierLength(x1, y1, x2, y2, x3, y3, x4, y4)', 'number', 'Approximate length of a Bézier curve'),
+        fn('bezierPointAtLength(x1, y1, x2, y2, x3, y3, x4, y4, u)', '{ x, y }', 'Point at distance fraction u (0-1) along a Bézier curve'),
+        fn('curveLength(x1, y1, x2, y2, x3, y3, x4, y4)', 'number', 'Approximate length of a curve'),
+        fn('curvePointAtLength(x1, y1, x2, y2, x3, y3, x4, y4, u)', '{ x, y }', 'Point at distance fraction u (0-1) along a curve'),
+        fn('arcLengthPath(pointAt, samples?)', '{ length, paramAt, pointAt }', 'Arc-length parameterization of any t → { x, y } path'),
+      ]),
+
+      ...group('typography', [
+        fn('text(str, x, y, w?, h?)', 'void', 'Draw text; with w (and h) it wraps inside a box'),
+        fn('textSize(size?)', 'number | void', 'Set or get the font size; resets textLeading'),
+        fn('textFont(font?, size?)', 'string | void', 'Set or get the font family',
+          'Font objects are reduced to their family name; no font loading'),
+        fn('textStyle(style?)', 'string | void', 'NORMAL, ITALIC, BOLD or BOLDITALIC'),
+        fn('textLeading(leading?)', 'number | void', 'Set or get the line spacing'),
+        fn('textWrap(mode?)', 'string | void', 'WORD or CHAR wrapping for boxed text'),
+        fn('textAlign(h?, v?)', '{ horizontal, vertical } | void', 'Horizontal and vertical text alignment'),
+        fn('textWidth(str)', 'number', 'Width of a string in the current font'),
+        fn('textAscent()', 'number', 'Ascent of the current font'),
+        fn('textDescent()', 'number', 'Descent of the current font'),
+      ]),
+
+      ...group('image', [
+        fn('loadImage(name, onLoad?, onError?)', 'Image', 'Image registered by the host under name',
+          'Reads the host asset registry only — no network; pending images fill in once decoded'),
+        fn('image(img, x, y, w?, h?, sx?, sy?, sw?, sh?)', 'void', 'Draw an image or graphics buffer, optionally cropped'),
+        fn('tint(...color)', 'void', 'Tint following images'),
+        fn('noTint()', 'void', 'Disable tinting'),
+        fn('filter(kind, param?)', 'void', 'Apply BLUR, GRAY, INVERT, THRESHOLD, POSTERIZE, DILATE, ERODE or OPAQUE to the canvas',
+          `Uses ctx.filter where possible, pixel fallbacks otherwise. ${PIXEL_BUDGET}`),
+      ]),
+
+      ...group('pixels', [
+        fn('loadPixels()', 'void', 'Copy the canvas into pixels[]', PIXEL_BUDGET),
+        fn('updatePixels()', 'void', 'Write pixels[] back to the canvas', PIXEL_BUDGET),
+        fn('get(x?, y?, w?, h?)', 'number[] | ImageData | null', 'Color at a point, or the pixels of a region or the whole canvas',
+          `Regions are returned as ImageData, not an image. ${PIXEL_BUDGET}`),
+        fn('set(x, y, c)', 'void', 'Write a color into pixels[]; call updatePixels() to show it', PIXEL_BUDGET),
+      ]),
+
+      ...group('math', [
+        fn('sin(a)', 'number', 'Sine'),
+        fn('cos(a)', 'number', 'Cosine'),
+        fn('tan(a)', 'number', 'Tangent'),
+        fn('asin(x)', 'number', 'Arc sine'),
+        fn('acos(x)', 'number', 'Arc cosine'),
+        fn('atan(x)', 'number', 'Arc tangent'),
+        fn('atan2(y, x)', 'number', 'Angle of the point (x, y)'),
+        fn('abs(x)', 'number', 'Absolute value'),
+        fn('ceil(x)', 'number', 'Round up'),
+        fn('floor(x)', 'number', 'Round down'),
+        fn('round(x)', 'number', 'Round to the nearest integer'),
+        fn('min(...values)', 'number', 'Smallest value'),
+        fn('max(...values)', 'number', 'Largest value'),
+        fn('pow(base, exp)', 'number', 'Power'),
+        fn('sqrt(x)', 'number', 'Square root'),
+        fn('exp(x)', 'number', 'e to the power x'),
+        fn('log(x)', 'number', 'Natural logarithm'),
+        fn('sq(x)', 'number', 'Square'),
+        fn('int(x)', 'number', 'Integer part of a number',
+          'Floors, so negative numbers round down instead of toward zero'),
+        fn('fract(x)', 'number', 'Fractional part'),
+        fn('sign(x)', 'number', '-1, 0 or 1'),
+        fn('map(v, start1, stop1, start2, stop2)', 'number', 'Re-map a value from one range to another'),
+        fn('constrain(v, lo, hi)', 'number', 'Clamp a value to a range'),
+        fn('lerp(a, b, t)', 'number', 'Linear interpolation'),
+        fn('lerpAngle(a, b, t)', 'number', 'Interpolate angles (radians) the short way around'),
+        fn('smoothstep(edge0, edge1, x)', 'number', 'Smooth Hermite step between two edges'),
+        fn('pingpong(t, length?)', 'number', 'Bounce t back and forth between 0 and length'),
+        fn('dist(x1, y1, x2, y2)', 'number', 'Distance between two points'),
+        fn('mag(x, y)', 'number', 'Length of a 2D vector'),
+        fn('norm(v, start, stop)', 'number', 'Normalize a value to 0-1 within a range'),
+        fn('radians(deg)', 'number', 'Degrees to radians'),
+        fn('degrees(rad)', 'number', 'Radians to degrees'),
+      ]),
+
+      ...group('random', [
+        fn('random(min?, max?)', 'number | any', 'Seeded random number; random(array) picks an element'),
+        fn('randomInt(min, max?)', 'number', 'Seeded random integer'),
+        fn('randomGaussian(mean?, sd?)', 'number', 'Seeded normally distributed number'),
+        fn('randomWeighted(items, weights)', 'any', 'Pick an item with probability proportional to its weight'),
+        fn('shuffle(array, modify?)', 'any[]', 'Seeded shuffle; a copy unless modify is true'),
+        fn('randomSeed(seed)', 'void', 'Reseed random()'),
+      ]),
+
+      ...group('noise', [
+        fn('noise(x, y?, z?)', 'number', 'Seeded smooth noise (0-1), layered by noiseDetail()'),
+        fn('noiseSeed(seed)', 'void', 'Reseed every noise function'),
+        fn('noiseDetail(octaves, falloff?)', 'void', 'Octave count and falloff for noise()'),
+        fn('simplexNoise(x, y?, z?, w?)', 'number', 'Simplex noise in 1-4 dimensions (0-1)'),
+        fn('worleyNoise(x, y, z?)', 'number', 'Distance to the nearest cell point (0-1)'),
+        fn('loopNoise(x, y, t, radius?)', 'number', 'Noise that loops seamlessly as t goes from 0 to 1'),
+        fn('fbm(x, y?, z?, octaves?)', 'number', 'Fractal Brownian motion'),
+        fn('ridgedNoise(x, y?, z?)', 'number', 'Ridged noise (0-1)'),
+        fn('curlNoise(x, y, epsilon?)', '{ x, y }', 'Divergence-free flow vector'),
+      ]),
+
+      ...group('vector', [
+        fn('createVector(x?, y?, z?)', 'p5.Vector', 'p5-style vector with add, mult, rotate, heading, ...'),
+        fn('vec(x, y)', '{ x, y }', 'Plain 2D vector'),
+        fn('vecAdd(a, b)', '{ x, y }', 'Sum of two vectors'),
+        fn('vecSub(a, b)', '{ x, y }', 'Difference of two vectors'),
+        fn('vecMult(v, s)', '{ x, y }', 'Vector scaled by s'),
+        fn('vecMag(v)', 'number', 'Length of a vector'),
+        fn('vecNorm(v)', '{ x, y }', 'Unit vector in the same direction'),
+        fn('vecDist(a, b)', 'number', 'Distance between two vectors'),
+      ]),
+
+      ...group('easing', [
+        fn('easeIn(t)', 'number', 'Quadratic ease-in (0-1)'),
+        fn('easeOut(t)', 'number', 'Quadratic ease-out (0-1)'),
+        fn('easeInOut(t)', 'number', 'Quadratic ease-in-out (0-1)'),
+        fn('easeCubic(t)', 'number', 'Cubic ease-in-out (0-1)'),
+        fn('easeExpo(t)', 'number', 'Exponential ease-in-out (0-1)'),
+      ]),
+
+      ...group('input', [
+        fn('keyIsDown(code)', 'boolean', 'Whether the key with this keyCode is held'),
+      ]),
+
+      ...group('time', [
+        fn('millis()', 'number', 'Milliseconds since the sketch started'),
+        fn('frameRate(fps?)', 'number | void', 'Set the target frame rate, or get the measured one'),
+        fn('getTargetFrameRate()', 'number', 'Target frame rate'),
+      ]),
+
+      ...group('loop', [
+        fn('loop()', 'void', 'Resume calling draw() every frame'),
+        fn('noLoop()', 'void', 'Stop calling draw()'),
+        fn('isLooping()', 'boolean', 'Whether draw() runs every frame'),
+        fn('redraw(n?)', 'void', 'Run draw() n more times while paused'),
+      ]),
+
+      ...group('debug', [
+        fn('print(...values)', 'void', 'Log values', 'Writes to the browser console'),
+        fn('println(...values)', 'void', 'Log values', 'Writes to the browser console'),
+      ]),
+    ],
+
+    constants: [
+      ...group('environment', [
+        constant('mode', "'preview'", 'Always "preview" in this runtime'),
+        constant('VAR', 'readonly number[]', 'Frozen sketch variables (VAR[0]-VAR[9])'),
+        variable('width', 'number', 'Canvas width (semantic)'),
+        variable('height', 'number', 'Canvas height (semantic)'),
+        constant('drawingContext', 'CanvasRenderingContext2D', 'The 2D context, for canvas features the API lacks',
+          'Wrapped so coordinates stay semantic on a scaled preview canvas'),
+        constant('p5', '{ Vector }', 'Namespace for p5.Vector'),
+        variable('pixels', 'Uint8ClampedArray', 'RGBA bytes filled by loadPixels()',
+          'Buffer resolution: rows are round(width × scale) wide, smaller than width on a scaled preview — use get()/set() there'),
+      ]),
+
+      ...group('time', [
+        variable('frameCount', 'number', 'Frames drawn so far'),
+        variable('deltaTime', 'number', 'Milliseconds since the previous frame'),
+        variable('totalFrames', 'number', 'Frames in one loop period'),
+        variable('t', 'number', 'Loop progress (0-1)'),
+        variable('time', 'number', 'Animation time', 'Same as t in preview'),
+        variable('tGlobal', 'number', 'Global animation time', 'Same as t in preview'),
+      ]),
+
+      ...group('math', [
+        constant('PI', 'number', 'π'),
+        constant('TWO_PI', 'number', '2π'),
+        constant('HALF_PI', 'number', 'π / 2'),
+        constant('QUARTER_PI', 'number', 'π / 4'),
+      ]),
+
+      ...group('shape', [
+        constant('CORNER', 'string', 'Mode: x, y is the top-left corner'),
+        constant('CORNERS', 'string', 'Mode: arguments are two opposite corners'),
+        constant('CENTER', 'string', 'Mode or alignment: centered'),
+        constant('RADIUS', 'string', 'Mode: width and height are radii'),
+        constant('CLOSE', 'string', 'endShape(CLOSE) closes the shape'),
+        constant('POINTS', 'string', 'beginShape() kind: separate points'),
+        constant('LINES', 'string', 'beginShape() kind: vertex pairs as lines'),
+        constant('TRIANGLES', 'string', 'beginShape() kind: vertex triples as triangles'),
+        constant('TRIANGLE_FAN', 'string', 'beginShape() kind: fan around the first vertex'),
+        constant('TRIANGLE_STRIP', 'string', 'beginShape() kind: strip of triangles'),
+        constant('QUADS', 'string', 'beginShape() kind: vertex quadruples as quads'),
+        constant('QUAD_STRIP', 'string', 'beginShape() kind: strip of quads'),
+      ]),
+
+      ...group('style', [
+        constant('ROUND', 'string', 'Round stroke cap or join'),
+        constant('SQUARE', 'string', 'Square stroke cap'),
+        constant('PROJECT', 'string', 'Projecting stroke cap'),
+        constant('MITER', 'string', 'Mitered stroke join'),
+        constant('BEVEL', 'string', 'Beveled stroke join'),
+      ]),
+
+      ...group('canvas', [
+        constant('BLEND', 'string', 'blendMode(): paint over (default)'),
+        constant('ADD', 'string', 'blendMode(): add colors'),
+        constant('MULTIPLY', 'string', 'blendMode(): multiply colors'),
+        constant('SCREEN', 'string', 'blendMode(): screen colors'),
+        constant('P2D', 'string', 'createCanvas() renderer: 2D'),
+        constant('WEBGL', 'string', 'createCanvas() renderer: WebGL', 'Not available in preview — draws in 2D'),
+      ]),
+
+      ...group('color', [
+        constant('RGB', 'string', 'colorMode(): red, green, blue'),
+        constant('HSB', 'string', 'colorMode(): hue, saturation, brightness'),
+        constant('HSL', 'string', 'colorMode(): hue, saturation, lightness'),
+      ]),
+
+      ...group('typography', [
+        constant('LEFT', 'string', 'Align left'),
+        constant('RIGHT', 'string', 'Align right'),
+        constant('TOP', 'string', 'Align top'),
+        constant('BOTTOM', 'string', 'Align bottom'),
+        constant('BASELINE', 'string', 'Align to the baseline'),
+        constant('NORMAL', 'string', 'Regular text style; also blendMode() default'),
+        constant('ITALIC', 'string', 'Italic text style'),
+        constant('BOLD', 'string', 'Bold text style'),
+        constant('BOLDITALIC', 'string', 'Bold italic text style'),
+        constant('WORD', 'string', 'textWrap(): break between words'),
+        constant('CHAR', 'string', 'textWrap(): break anywhere'),
+      ]),
+
+      ...group('image', [
+        constant('BLUR', 'string', 'filter(): Gaussian blur, param is the radius'),
+        constant('GRAY', 'string', 'filter(): grayscale'),
+        constant('INVERT', 'string', 'filter(): invert colors'),
+        constant('THRESHOLD', 'string', 'filter(): black and white, param is the level (0-1)'),
+        constant('POSTERIZE', 'string', 'filter(): limit colors, param is the levels per channel'),
+        constant('DILATE', 'string', 'filter(): grow light areas'),
+        constant('ERODE', 'string', 'filter(): grow dark areas'),
+        constant('OPAQUE', 'string', 'filter(): remove transparency'),
+      ]),
+
+      ...group('input', [
+        variable('mouseX', 'number', 'Pointer x (semantic)'),
+        variable('mouseY', 'number', 'Pointer y (semantic)'),
+        variable('pmouseX', 'number', 'Pointer x in the previous frame'),
+        variable('pmouseY', 'number', 'Pointer y in the previous frame'),
+        variable('mouseIsPressed', 'boolean', 'Whether a mouse button is held'),
+        variable('mouseButton', 'string', 'LEFT, CENTER or RIGHT'),
+        variable('key', 'string', 'Most recent key'),
+        variable('keyCode', 'number', 'keyCode of the most recent key'),
+        variable('keyIsPressed', 'boolean', 'Whether any key is held'),
+        constant('BACKSPACE', 'number', 'keyCode 8'),
+        constant('TAB', 'number', 'keyCode 9'),
+        constant('ENTER', 'number', 'keyCode 13'),
+        constant('RETURN', 'number', 'keyCode 13'),
+        constant('SHIFT', 'number', 'keyCode 16'),
+        constant('CONTROL', 'number', 'keyCode 17'),
+        constant('OPTION', 'number', 'keyCode 18'),
+        constant('ALT', 'number', 'keyCode 18'),
+        constant('ESCAPE', 'number', 'keyCode 27'),
+        constant('LEFT_ARROW', 'number', 'keyCode 37'),
+        constant('UP_ARROW', 'number', 'keyCode 38'),
+        constant('RIGHT_ARROW', 'number', 'keyCode 39'),
+        constant('DOWN_ARROW', 'number', 'keyCode 40'),
+        constant('DELETE', 'number', 'keyCode 46'),
+      ]),
+    ],
+
+    hooks: [
+      hook('preload()', 'Runs before setup(); the first frame waits for registered images to decode'),
+      hook('setup()', 'Runs once before the first frame'),
+      hook('draw()', 'Runs every frame while looping'),
+      ...SKETCH_EVENT_HANDLERS.map(name => hook(`${name}(event?)`, HOOK_DESCRIPTIONS[name])),
+    ],
+  };
+}
+
+const HOOK_DESCRIPTIONS: Record<typeof SKETCH_EVENT_HANDLERS[number], string> = {
+  mousePressed: 'A mouse button went down over the canvas',
+  mouseReleased: 'A mouse button was released',
+  mouseClicked: 'A mouse button was pressed and released',
+  mouseMoved: 'The pointer moved with no button held',
+  mouseDragged: 'The pointer moved with a button held',
+  mouseWheel: 'The wheel turned over the canvas',
+  keyPressed: 'A key went down',
+  keyReleased: 'A key was released',
+  keyTyped: 'A character key was typed',
+};
+
+function hook(signature: string, description: string): RuntimeHookSpec {
+  const name = signature.slice(0, signature.indexOf('('));
+  return { name, signature, description, codeModeSupported: CODE_MODE_API.has(name) };
+}
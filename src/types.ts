@@ -10,6 +10,8 @@
  * - Max canvas dimension: 900px
  */
 
+import type { RuntimeTimingMode } from './preview/preview-types';
+
 export const SDK_VERSION = '0.8.6';
 
 export const AESTHETIC_DEFAULTS = {
@@ -270,6 +272,10 @@ export interface PreviewOptions {
   onPreview?: (canvas: HTMLCanvasElement) => void;
   onComplete?: (result: { type: 'image' | 'video'; blob: Blob }) => void;
   onError?: (error: Error) => void;
+  /** Bind pointer and keyboard input to the canvas (Code Mode previews, default: false) */
+  interactive?: boolean;
+  /** Clock behind millis() and deltaTime (default: 'wall-clock') */
+  timing?: RuntimeTimingMode;
 }
 
 export interface ValidationResult {